@@ -1,111 +1,150 @@
-import { auth } from "@/lib/auth";
+import { authenticateRequest } from "@/lib/apiTokens";
 import { prisma } from "@/lib/prisma";
+import {
+  ActivityEvent,
+  ActivityType,
+  createRollup,
+  DailyRollup,
+  getDayKey,
+  getHistoryDays,
+  getRecentDays,
+  StatsEngine
+} from "@codeflow/stats-engine";
 import { NextRequest, NextResponse } from "next/server";
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface StoredEvent {
+  eventId: string;
+  timestamp: Date;
+  type: string;
+  data: unknown;
+  workspaceId: string | null;
+  projectName: string | null;
+  sessionId: string;
+  instanceId: string | null;
+}
+
 export async function GET(req: NextRequest) {
   try {
     // Verify authentication
-    const session = await auth.getSession();
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    const authResult = await authenticateRequest(req.headers, "activity:read");
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status });
     }
 
-    const userId = session.user.id;
-    
+    const userId = authResult.userId;
+
     // Get query params
     const url = new URL(req.url);
-    const days = parseInt(url.searchParams.get("days") || "7");
-    
+    const days = Math.max(1, parseInt(url.searchParams.get("days") || "7") || 7);
+    // Hourly activity is shown in the viewer's time zone, as in VS Code
+    const getHour = getHourInTimeZone(url.searchParams.get("timeZone"));
+
     // Calculate date range
-    const endDate = new Date();
-    const startDate = new Date();
-    startDate.setDate(startDate.getDate() - days);
+    const now = Date.now();
+    const startTime = now - days * DAY_MS;
+    // Rollups cover whole days, so events are read from the start of the first day
+    const readFrom = Date.parse(getDayKey(startTime));
 
     // Get activity data
-    const events = await prisma.activityEvent.findMany({
+    const storedEvents: StoredEvent[] = await prisma.activityEvent.findMany({
       where: {
         userId: userId,
         timestamp: {
-          gte: startDate,
-          lte: endDate
+          gte: new Date(readFrom),
+          lte: new Date(now)
         }
       },
       orderBy: {
         timestamp: 'asc'
       }
     });
+    const events = storedEvents.map(toActivityEvent);
+    const recentEvents = events.filter(event => event.timestamp >= startTime);
 
-    // Get sessions
-    const sessions = await prisma.activitySession.findMany({
+    const sessionsCount: number = await prisma.activitySession.count({
       where: {
         userId: userId,
         startTime: {
-          gte: startDate,
-          lte: endDate
+          gte: new Date(startTime),
+          lte: new Date(now)
         }
-      },
-      orderBy: {
-        startTime: 'asc'
       }
     });
 
-    // Calculate basic stats
-    const totalEvents = events.length;
-    const activeTime = sessions.reduce((sum, session) => 
-      sum + (session.activeTime || 0), 0);
-    
+    // The same calculations as the extension's stats panel
+    const engine = new StatsEngine();
+    const rollups = engine.buildRollups(events, getHour);
+    const history = await getDailyEventCounts(userId);
+    const stats = engine.calculate(
+      getRecentDays(rollups, days),
+      getRecentDays(history, Math.max(days, getHistoryDays(Array.from(history.keys())))),
+      now
+    );
+
     // Count event types
     const eventTypeCounts: Record<string, number> = {};
-    events.forEach(event => {
-      if (!eventTypeCounts[event.type]) {
-        eventTypeCounts[event.type] = 0;
-      }
-      eventTypeCounts[event.type]++;
+    recentEvents.forEach(event => {
+      eventTypeCounts[event.type] = (eventTypeCounts[event.type] || 0) + 1;
     });
 
-    // Format data for response
-    const stats = {
-      totalEvents,
-      activeTime,
-      eventTypeCounts,
-      sessionsCount: sessions.length,
-      timeRange: {
-        start: startDate,
-        end: endDate
-      },
-      dailyActivity: calculateDailyActivity(events, startDate, endDate)
-    };
-
-    return NextResponse.json({ success: true, stats });
+    return NextResponse.json({
+      success: true,
+      stats: {
+        ...stats,
+        eventTypeCounts,
+        sessionsCount,
+        timeRange: {
+          start: new Date(startTime),
+          end: new Date(now)
+        }
+      }
+    });
   } catch (error) {
     console.error("Stats error:", error);
     return NextResponse.json(
-      { error: "Failed to fetch activity stats" }, 
+      { error: "Failed to fetch activity stats" },
       { status: 500 }
     );
   }
 }
 
-// Helper function to calculate daily activity
-function calculateDailyActivity(events: any[], startDate: Date, endDate: Date) {
-  const dailyMap = new Map<string, { date: string, events: number, activeTime: number }>();
-  
-  // Initialize all days in the range
-  const currentDate = new Date(startDate);
-  while (currentDate <= endDate) {
-    const dateStr = currentDate.toISOString().split('T')[0];
-    dailyMap.set(dateStr, { date: dateStr, events: 0, activeTime: 0 });
-    currentDate.setDate(currentDate.getDate() + 1);
+function toActivityEvent(event: StoredEvent): ActivityEvent {
+  return {
+    id: event.eventId,
+    timestamp: event.timestamp.getTime(),
+    type: event.type as ActivityType,
+    data: event.data as ActivityEvent["data"],
+    workspaceId: event.workspaceId ?? undefined,
+    projectName: event.projectName ?? undefined,
+    sessionId: event.sessionId,
+    instanceId: event.instanceId ?? undefined
+  };
+}
+
+/**
+ * Events per UTC day over the user's whole history, for streaks. Only the
+ * counts are needed, so they are aggregated in the database.
+ */
+async function getDailyEventCounts(userId: string): Promise<Map<string, DailyRollup>> {
+  const counts: Array<{ date: string; events: number }> = await prisma.$queryRaw`
+    SELECT to_char("timestamp", 'YYYY-MM-DD') AS "date", COUNT(*)::int AS "events"
+    FROM "activity_events"
+    WHERE "userId" = ${userId}
+    GROUP BY 1`;
+
+  return new Map(counts.map(({ date, events }) => [date, { ...createRollup(date), events }]));
+}
+
+// Unknown time zones fall back to the server's
+function getHourInTimeZone(timeZone: string | null): ((timestamp: number) => number) | undefined {
+  if (!timeZone) return undefined;
+
+  try {
+    const format = new Intl.DateTimeFormat("en-US", { timeZone, hour: "numeric", hourCycle: "h23" });
+    return timestamp => Number(format.formatToParts(timestamp).find(part => part.type === "hour")?.value ?? 0);
+  } catch {
+    return undefined;
   }
-  
-  // Count events per day
-  events.forEach(event => {
-    const dateStr = new Date(event.timestamp).toISOString().split('T')[0];
-    const day = dailyMap.get(dateStr);
-    if (day) {
-      day.events++;
-    }
-  });
-  
-  return Array.from(dailyMap.values());
-}
\ No newline at end of file
+}
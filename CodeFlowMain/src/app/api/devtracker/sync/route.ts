@@ -1,107 +1,269 @@
-import { auth } from "@/lib/auth";
+import { authenticateRequest } from "@/lib/apiTokens";
 import { prisma } from "@/lib/prisma";
+import {
+  formatError,
+  parseSyncEvent,
+  parseSyncSession,
+  SyncCounts,
+  SyncEvent,
+  SyncItemStatus,
+  syncRequestSchema,
+  SyncResponse,
+  SyncSession
+} from "@/lib/syncContract";
 import { NextRequest, NextResponse } from "next/server";
+import { promisify } from "util";
+import * as zlib from "zlib";
+
+const gunzip = promisify(zlib.gunzip);
+
+// Rows per INSERT, well below Postgres' limit of 65535 bind parameters
+const INSERT_CHUNK_SIZE = 1000;
+// Upper bound for a decompressed request body
+const MAX_BODY_BYTES = 50 * 1024 * 1024;
+
+type Transaction = Omit<typeof prisma, "$connect" | "$disconnect" | "$on" | "$transaction" | "$extends">;
 
 export async function POST(req: NextRequest) {
   try {
     // Verify authentication
-    const session = await auth.getSession();
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    const authResult = await authenticateRequest(req.headers, "activity:write");
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status });
     }
 
-    const userId = session.user.id;
-    const data = await req.json();
-    
-    if (!data.events || !Array.isArray(data.events)) {
-      return NextResponse.json({ error: "Invalid data format" }, { status: 400 });
+    const userId = authResult.userId;
+    let data;
+    try {
+      data = await readBody(req);
+    } catch (error) {
+      console.error("Error reading sync body:", error);
+      return NextResponse.json({ error: "Invalid request body" }, { status: 400 });
     }
 
-    // Process and store activity events
-    const results = await Promise.all(
-      data.events.map(async (event) => {
-        try {
-          // Check if event already exists to prevent duplicates
-          const existing = await prisma.activityEvent.findUnique({
-            where: { eventId: event.id }
-          });
-
-          if (!existing) {
-            await prisma.activityEvent.create({
-              data: {
-                eventId: event.id,
-                timestamp: new Date(event.timestamp),
-                type: event.type,
-                data: event.data,
-                workspaceId: event.workspaceId || null,
-                projectName: event.projectName || null,
-                sessionId: event.sessionId,
-                userId: userId,
-              },
-            });
-            return { id: event.id, status: "created" };
-          }
-          
-          return { id: event.id, status: "exists" };
-        } catch (error) {
-          console.error("Error processing event:", error);
-          return { id: event.id, status: "error", error: String(error) };
-        }
-      })
-    );
-
-    // Process and store sessions
-    if (data.sessions && Array.isArray(data.sessions)) {
-      await Promise.all(
-        data.sessions.map(async (session) => {
-          try {
-            // Check if session already exists
-            const existing = await prisma.activitySession.findUnique({
-              where: { sessionId: session.id }
-            });
-
-            if (!existing) {
-              await prisma.activitySession.create({
-                data: {
-                  sessionId: session.id,
-                  startTime: new Date(session.startTime),
-                  endTime: session.endTime ? new Date(session.endTime) : null,
-                  workspaceId: session.workspaceId || null,
-                  projectName: session.projectName || null,
-                  totalEvents: session.totalEvents || 0,
-                  activeTime: session.activeTime || 0,
-                  userId: userId,
-                },
-              });
-            } else if (session.endTime) {
-              // Update existing session with end time and counts
-              await prisma.activitySession.update({
-                where: { sessionId: session.id },
-                data: {
-                  endTime: new Date(session.endTime),
-                  totalEvents: session.totalEvents || 0,
-                  activeTime: session.activeTime || 0,
-                  updatedAt: new Date(),
-                },
-              });
-            }
-          } catch (error) {
-            console.error("Error processing session:", error);
-          }
-        })
-      );
+    const request = syncRequestSchema.safeParse(data);
+    if (!request.success) {
+      return NextResponse.json({ error: `Invalid data format: ${formatError(request.error)}` }, { status: 400 });
     }
+    const sessions = request.data.sessions || [];
+
+    // One connection for the whole batch instead of a query per item. Sessions
+    // go first, since events reference them.
+    const { sessionStatus, eventStatus } = await prisma.$transaction(
+      async (tx: Transaction) => {
+        const sessionStatus = await upsertSessions(tx, userId, sessions);
+        const eventStatus = await insertEvents(tx, userId, request.data.events);
+        return { sessionStatus, eventStatus };
+      },
+      { timeout: 30000 }
+    );
 
-    return NextResponse.json({ 
-      success: true, 
-      processed: results.length,
-      status: results 
+    return NextResponse.json<SyncResponse>({
+      success: true,
+      processed: eventStatus.length,
+      events: countStatuses(eventStatus),
+      sessions: countStatuses(sessionStatus),
+      status: eventStatus,
+      sessionStatus
     });
   } catch (error) {
     console.error("Sync error:", error);
     return NextResponse.json(
-      { error: "Failed to process activity data" }, 
+      { error: "Failed to process activity data" },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Parse the JSON body, which the extension gzips when it is large
+ */
+async function readBody(req: NextRequest) {
+  if (req.headers.get("content-encoding") !== "gzip") {
+    return req.json();
+  }
+
+  const compressed = Buffer.from(await req.arrayBuffer());
+  const body = await gunzip(compressed, { maxOutputLength: MAX_BODY_BYTES });
+  return JSON.parse(body.toString("utf8"));
+}
+
+/**
+ * Create new sessions and update the user's existing ones with one statement
+ * each. Sessions that belong to another user are rejected.
+ */
+async function upsertSessions(tx: Transaction, userId: string, items: unknown[]): Promise<SyncItemStatus[]> {
+  const statuses: SyncItemStatus[] = [];
+  const sessions = new Map<string, SyncSession>();
+
+  const now = Date.now();
+  items.forEach((item, index) => {
+    const result = parseSyncSession(item, now);
+    if (result.success) {
+      // A later copy of the same session is the more recent one
+      sessions.set(result.data.id, result.data);
+    } else {
+      statuses.push({ id: getItemId(item, index), status: "error", code: result.code, error: result.error });
+    }
+  });
+  if (sessions.size === 0) return statuses;
+
+  const existing: Array<{ sessionId: string; userId: string }> = await tx.activitySession.findMany({
+    where: { sessionId: { in: Array.from(sessions.keys()) } },
+    select: { sessionId: true, userId: true }
+  });
+  const owners = new Map(existing.map(row => [row.sessionId, row.userId]));
+
+  const toCreate: SyncSession[] = [];
+  const toUpdate: SyncSession[] = [];
+  sessions.forEach(session => {
+    const owner = owners.get(session.id);
+    if (owner === undefined) {
+      toCreate.push(session);
+    } else if (owner === userId) {
+      toUpdate.push(session);
+    } else {
+      statuses.push({ id: session.id, status: "error", code: "session_conflict", error: "Session belongs to another user" });
+    }
+  });
+
+  for (let i = 0; i < toCreate.length; i += INSERT_CHUNK_SIZE) {
+    const chunk = toCreate.slice(i, i + INSERT_CHUNK_SIZE);
+    const created: Array<{ sessionId: string }> = await tx.activitySession.createManyAndReturn({
+      data: chunk.map(session => ({
+        sessionId: session.id,
+        startTime: new Date(session.startTime),
+        endTime: session.endTime ? new Date(session.endTime) : null,
+        workspaceId: session.workspaceId || null,
+        projectName: session.projectName || null,
+        workspaceFolders: session.workspaceFolders || [],
+        folderActivity: session.folderActivity || [],
+        totalEvents: session.totalEvents || 0,
+        activeTime: session.activeTime || 0,
+        userId: userId,
+      })),
+      select: { sessionId: true },
+      skipDuplicates: true
+    });
+
+    // Sessions skipped here were created by a concurrent sync in the meantime
+    const createdIds = new Set(created.map(row => row.sessionId));
+    chunk.forEach(session => statuses.push({ id: session.id, status: createdIds.has(session.id) ? "created" : "exists" }));
+  }
+
+  for (let i = 0; i < toUpdate.length; i += INSERT_CHUNK_SIZE) {
+    const chunk = toUpdate.slice(i, i + INSERT_CHUNK_SIZE);
+    const rows = chunk.map(session => ({
+      sessionId: session.id,
+      endTime: session.endTime ? new Date(session.endTime).toISOString() : null,
+      workspaceFolders: session.workspaceFolders || [],
+      folderActivity: session.folderActivity || [],
+      totalEvents: session.totalEvents || 0,
+      activeTime: session.activeTime || 0
+    }));
+
+    // An end time, once set, is kept even if an older copy arrives without one
+    await tx.$executeRaw`
+      UPDATE "activity_sessions" AS s SET
+        "endTime" = COALESCE(t."endTime", s."endTime"),
+        "workspaceFolders" = t."workspaceFolders",
+        "folderActivity" = t."folderActivity",
+        "totalEvents" = t."totalEvents",
+        "activeTime" = t."activeTime",
+        "updatedAt" = NOW()
+      FROM jsonb_to_recordset(${JSON.stringify(rows)}::jsonb) AS t(
+        "sessionId" text,
+        "endTime" timestamp(3),
+        "workspaceFolders" jsonb,
+        "folderActivity" jsonb,
+        "totalEvents" integer,
+        "activeTime" integer
+      )
+      WHERE s."sessionId" = t."sessionId" AND s."userId" = ${userId}`;
+
+    chunk.forEach(session => statuses.push({ id: session.id, status: "updated" }));
+  }
+
+  return statuses;
+}
+
+/**
+ * Insert events in chunks, skipping those already stored. Events for a session
+ * the user doesn't have are rejected for good: the request's own sessions are
+ * stored by now, so the client never sent it.
+ */
+async function insertEvents(tx: Transaction, userId: string, items: unknown[]): Promise<SyncItemStatus[]> {
+  const statuses = new Map<string, SyncItemStatus>();
+  const events = new Map<string, SyncEvent>();
+
+  const now = Date.now();
+  items.forEach((item, index) => {
+    const result = parseSyncEvent(item, now);
+    if (result.success) {
+      events.set(result.data.id, result.data);
+    } else {
+      const id = getItemId(item, index);
+      statuses.set(id, { id, status: "error", code: result.code, error: result.error });
+    }
+  });
+
+  const sessionIds = Array.from(new Set(Array.from(events.values(), event => event.sessionId)));
+  const sessions: Array<{ sessionId: string; userId: string }> = sessionIds.length > 0
+    ? await tx.activitySession.findMany({
+        where: { sessionId: { in: sessionIds } },
+        select: { sessionId: true, userId: true }
+      })
+    : [];
+  const owners = new Map(sessions.map(row => [row.sessionId, row.userId]));
+
+  const toInsert: SyncEvent[] = [];
+  events.forEach(event => {
+    const owner = owners.get(event.sessionId);
+    if (owner === userId) {
+      toInsert.push(event);
+    } else if (owner === undefined) {
+      statuses.set(event.id, { id: event.id, status: "error", code: "unknown_session", error: "Unknown session" });
+    } else {
+      statuses.set(event.id, { id: event.id, status: "error", code: "session_conflict", error: "Session belongs to another user" });
+    }
+  });
+
+  for (let i = 0; i < toInsert.length; i += INSERT_CHUNK_SIZE) {
+    const chunk = toInsert.slice(i, i + INSERT_CHUNK_SIZE);
+    const created: Array<{ eventId: string }> = await tx.activityEvent.createManyAndReturn({
+      data: chunk.map(event => ({
+        eventId: event.id,
+        timestamp: new Date(event.timestamp),
+        type: event.type,
+        data: event.data,
+        workspaceId: event.workspaceId || null,
+        projectName: event.projectName || null,
+        sessionId: event.sessionId,
+        instanceId: event.instanceId || null,
+        userId: userId,
+      })),
+      select: { eventId: true },
+      skipDuplicates: true
+    });
+
+    const createdIds = new Set(created.map(row => row.eventId));
+    chunk.forEach(event => statuses.set(event.id, { id: event.id, status: createdIds.has(event.id) ? "created" : "exists" }));
+  }
+
+  return Array.from(statuses.values());
+}
+
+// Items without a usable ID are reported by their position in the batch
+function getItemId(item: unknown, index: number): string {
+  const id = (item as { id?: unknown } | null)?.id;
+  return typeof id === "string" && id ? id : `#${index}`;
+}
+
+function countStatuses(statuses: SyncItemStatus[]): SyncCounts {
+  return {
+    created: statuses.filter(item => item.status === "created").length,
+    updated: statuses.filter(item => item.status === "updated").length,
+    duplicates: statuses.filter(item => item.status === "exists").length,
+    rejected: statuses.filter(item => item.status === "error").length
+  };
+}
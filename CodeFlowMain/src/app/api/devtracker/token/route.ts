@@ -0,0 +1,22 @@
+import { authenticateRequest } from "@/lib/apiTokens";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * Lets the extension check a token before relying on it for syncs
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(req.headers, "activity:write");
+    if (!authResult.success) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Token check error:", error);
+    return NextResponse.json(
+      { error: "Failed to check access token" },
+      { status: 500 }
+    );
+  }
+}
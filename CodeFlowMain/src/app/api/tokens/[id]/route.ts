@@ -0,0 +1,31 @@
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * Revoke a token. It stops working on the next request that uses it.
+ */
+export async function DELETE(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await auth.api.getSession({ headers: req.headers });
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Scoped to the user, so another user's token reads as missing
+    const { count }: { count: number } = await prisma.apiToken.deleteMany({
+      where: { id: params.id, userId: session.user.id }
+    });
+    if (count === 0) {
+      return NextResponse.json({ error: "Token not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Revoke token error:", error);
+    return NextResponse.json(
+      { error: "Failed to revoke access token" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { createApiTokenSchema, generateApiToken } from "@/lib/apiTokens";
+import { formatError } from "@/lib/syncContract";
+import { NextRequest, NextResponse } from "next/server";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Everything but the hash, which never leaves the server
+const TOKEN_FIELDS = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  lastUsedAt: true,
+  expiresAt: true,
+  createdAt: true
+};
+
+export async function GET(req: NextRequest) {
+  try {
+    // Tokens are managed from the browser only, so a token can't create more
+    const session = await auth.api.getSession({ headers: req.headers });
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const tokens = await prisma.apiToken.findMany({
+      where: { userId: session.user.id },
+      select: TOKEN_FIELDS,
+      orderBy: { createdAt: "desc" }
+    });
+
+    return NextResponse.json({ success: true, tokens });
+  } catch (error) {
+    console.error("List tokens error:", error);
+    return NextResponse.json(
+      { error: "Failed to list access tokens" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: req.headers });
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const request = createApiTokenSchema.safeParse(await req.json());
+    if (!request.success) {
+      return NextResponse.json({ error: `Invalid token request: ${formatError(request.error)}` }, { status: 400 });
+    }
+
+    const { name, scopes, expiresInDays } = request.data;
+    const { token, tokenHash, prefix } = generateApiToken();
+    const created = await prisma.apiToken.create({
+      data: {
+        name,
+        tokenHash,
+        prefix,
+        scopes,
+        expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * DAY_MS) : null,
+        userId: session.user.id
+      },
+      select: TOKEN_FIELDS
+    });
+
+    // The only time the token itself is returned
+    return NextResponse.json({ success: true, token, apiToken: created }, { status: 201 });
+  } catch (error) {
+    console.error("Create token error:", error);
+    return NextResponse.json(
+      { error: "Failed to create access token" },
+      { status: 500 }
+    );
+  }
+}
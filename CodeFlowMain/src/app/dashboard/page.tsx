@@ -1,3 +1,4 @@
+import Link from "next/link";
 import { ActivityChart } from "@/components/dashboard/activity-chart";
 import { Toaster } from "@/components/ui/toaster";
 
@@ -5,7 +6,12 @@ export default function DashboardPage() {
   return (
     <div className="min-h-screen bg-background">
       <div className="container py-8 mx-auto">
-        <h1 className="text-3xl font-bold mb-6">Dashboard</h1>
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-3xl font-bold">Dashboard</h1>
+          <Link href="/dashboard/settings" className="text-sm font-medium text-primary hover:underline">
+            Settings
+          </Link>
+        </div>
         
         <div className="grid gap-6">
           <ActivityChart />
@@ -14,4 +20,4 @@ export default function DashboardPage() {
       <Toaster />
     </div>
   )
-}
\ No newline at end of file
+}
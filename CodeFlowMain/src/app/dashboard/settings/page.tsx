@@ -0,0 +1,23 @@
+import Link from "next/link";
+import { ApiTokens } from "@/components/settings/api-tokens";
+import { Toaster } from "@/components/ui/toaster";
+
+export default function SettingsPage() {
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container py-8 mx-auto">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-3xl font-bold">Settings</h1>
+          <Link href="/dashboard" className="text-sm font-medium text-primary hover:underline">
+            Back to dashboard
+          </Link>
+        </div>
+
+        <div className="grid gap-6">
+          <ApiTokens />
+        </div>
+      </div>
+      <Toaster />
+    </div>
+  )
+}
@@ -2,21 +2,15 @@
 
 import { useEffect, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import type { ActivityStats } from "@codeflow/stats-engine";
 
-type ActivityData = {
-  totalEvents: number;
-  activeTime: number; // in milliseconds
+type ActivityData = ActivityStats & {
   eventTypeCounts: Record<string, number>;
   sessionsCount: number;
   timeRange: {
     start: string;
     end: string;
   };
-  dailyActivity: Array<{
-    date: string;
-    events: number;
-    activeTime: number;
-  }>;
 };
 
 export function ActivityChart() {
@@ -31,7 +25,10 @@ export function ActivityChart() {
         setLoading(true);
         setError(null);
         
-        const response = await fetch(`/api/devtracker/stats?days=${timeRange}`);
+        const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+        const response = await fetch(
+          `/api/devtracker/stats?days=${timeRange}&timeZone=${encodeURIComponent(timeZone)}`
+        );
         
         if (!response.ok) {
           throw new Error("Failed to fetch activity data");
@@ -171,6 +168,27 @@ export function ActivityChart() {
             </div>
           )}
         </div>
+
+        {data.projectActivity.length > 0 && (
+          <>
+            <h3 className="mt-8 mb-4 text-lg font-medium">Time by Project</h3>
+            <ul className="divide-y rounded-lg border">
+              {data.projectActivity.slice(0, 10).map((project) => (
+                <li
+                  key={project.workspaceId || project.projectName}
+                  className="flex items-center justify-between p-3 text-sm"
+                >
+                  <span className="font-medium" title={project.workspaceId}>
+                    {project.projectName}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {formatTime(project.activeTime)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
       </CardContent>
     </Card>
   );
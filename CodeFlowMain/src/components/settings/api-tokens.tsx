@@ -0,0 +1,244 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react";
+import { Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { API_TOKEN_SCOPES, type ApiTokenScope } from "@/lib/apiTokenScopes";
+
+interface ApiToken {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiTokenScope[];
+  lastUsedAt: string | null;
+  expiresAt: string | null;
+  createdAt: string;
+}
+
+const SCOPE_LABELS: Record<ApiTokenScope, string> = {
+  "activity:write": "Sync activity from VS Code",
+  "activity:read": "Read activity stats"
+};
+
+// Days until expiry; null never expires
+const EXPIRY_OPTIONS: Array<{ label: string; days: number | null }> = [
+  { label: "30 days", days: 30 },
+  { label: "90 days", days: 90 },
+  { label: "1 year", days: 365 },
+  { label: "Never", days: null }
+];
+
+export function ApiTokens() {
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [name, setName] = useState("VS Code");
+  const [scopes, setScopes] = useState<ApiTokenScope[]>([...API_TOKEN_SCOPES]);
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(90);
+  // Shown once, right after the token is created
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const showError = useCallback((description: string) => {
+    toast({ title: "Error", description, variant: "destructive" });
+  }, [toast]);
+
+  useEffect(() => {
+    async function fetchTokens() {
+      try {
+        const response = await fetch("/api/tokens");
+        const result = await response.json();
+        if (!response.ok || !result.success) {
+          throw new Error(result.error || "Failed to load access tokens");
+        }
+        setTokens(result.tokens);
+      } catch (err) {
+        console.error("Error fetching access tokens:", err);
+        showError(err instanceof Error ? err.message : "Failed to load access tokens");
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchTokens();
+  }, [showError]);
+
+  const toggleScope = (scope: ApiTokenScope) => {
+    setScopes(current => current.includes(scope)
+      ? current.filter(item => item !== scope)
+      : [...current, scope]);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+
+    try {
+      const response = await fetch("/api/tokens", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, scopes, expiresInDays })
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || "Failed to create access token");
+      }
+
+      setTokens(current => [result.apiToken, ...current]);
+      setNewToken(result.token);
+    } catch (err) {
+      showError(err instanceof Error ? err.message : "Failed to create access token");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (token: ApiToken) => {
+    if (!window.confirm(`Revoke "${token.name}"? Anything using it will stop syncing.`)) return;
+
+    try {
+      const response = await fetch(`/api/tokens/${token.id}`, { method: "DELETE" });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || "Failed to revoke access token");
+      }
+
+      setTokens(current => current.filter(item => item.id !== token.id));
+      toast({ title: "Token revoked", description: `"${token.name}" can no longer be used.` });
+    } catch (err) {
+      showError(err instanceof Error ? err.message : "Failed to revoke access token");
+    }
+  };
+
+  const copyToken = async () => {
+    if (!newToken) return;
+    try {
+      await navigator.clipboard.writeText(newToken);
+      toast({ title: "Copied", description: "Paste it into VS Code when asked for a CodeFlow access token." });
+    } catch {
+      showError("Couldn't copy the token, select and copy it instead");
+    }
+  };
+
+  const formatDate = (date: string | null, fallback: string) =>
+    date ? new Date(date).toLocaleDateString() : fallback;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Access Tokens</CardTitle>
+        <CardDescription>
+          Tokens let the VS Code extension sync your activity. Treat them like passwords.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        {newToken && (
+          <div className="p-4 border rounded-lg space-y-2">
+            <p className="text-sm font-medium">
+              Copy your new token now. It won&apos;t be shown again.
+            </p>
+            <div className="flex gap-2">
+              <Input readOnly value={newToken} className="font-mono" onFocus={e => e.target.select()} />
+              <Button type="button" variant="outline" size="icon" onClick={copyToken} aria-label="Copy token">
+                <Copy />
+              </Button>
+            </div>
+            <Button type="button" variant="ghost" size="sm" onClick={() => setNewToken(null)}>
+              Done
+            </Button>
+          </div>
+        )}
+
+        <form onSubmit={handleCreate} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="token-name">Name</Label>
+            <Input
+              id="token-name"
+              type="text"
+              placeholder="e.g. Work laptop"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={100}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Scopes</Label>
+            {API_TOKEN_SCOPES.map(scope => (
+              <label key={scope} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={scopes.includes(scope)}
+                  onChange={() => toggleScope(scope)}
+                />
+                <span className="font-mono">{scope}</span>
+                <span className="text-muted-foreground">{SCOPE_LABELS[scope]}</span>
+              </label>
+            ))}
+          </div>
+          <div className="space-y-2">
+            <Label>Expires after</Label>
+            <div className="flex gap-2">
+              {EXPIRY_OPTIONS.map(option => (
+                <button
+                  key={option.label}
+                  type="button"
+                  onClick={() => setExpiresInDays(option.days)}
+                  className={`px-3 py-1 text-xs rounded ${
+                    expiresInDays === option.days
+                      ? "bg-primary text-primary-foreground"
+                      : "bg-muted text-muted-foreground"
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <Button type="submit" disabled={creating || scopes.length === 0}>
+            {creating ? "Creating token..." : "Create Token"}
+          </Button>
+        </form>
+
+        <div>
+          <h3 className="mb-4 text-lg font-medium">Your Tokens</h3>
+          {loading ? (
+            <p className="text-sm text-muted-foreground">Loading tokens...</p>
+          ) : tokens.length === 0 ? (
+            <p className="text-sm text-muted-foreground">You haven&apos;t created any tokens yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {tokens.map(token => {
+                const expired = token.expiresAt !== null && new Date(token.expiresAt).getTime() <= Date.now();
+                return (
+                  <div key={token.id} className="flex items-center justify-between gap-4 p-4 border rounded-lg">
+                    <div className="space-y-1 min-w-0">
+                      <div className="font-medium">
+                        {token.name}{" "}
+                        <span className="font-mono text-xs text-muted-foreground">{token.prefix}…</span>
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {token.scopes.join(", ")} · Created {formatDate(token.createdAt, "")} ·
+                        Last used {formatDate(token.lastUsedAt, "never")} ·{" "}
+                        <span className={expired ? "text-destructive" : undefined}>
+                          {expired ? "Expired" : "Expires"} {formatDate(token.expiresAt, "never")}
+                        </span>
+                      </div>
+                    </div>
+                    <Button type="button" variant="destructive" size="sm" onClick={() => handleRevoke(token)}>
+                      Revoke
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
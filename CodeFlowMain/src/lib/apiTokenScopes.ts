@@ -0,0 +1,4 @@
+// Kept apart from apiTokens.ts so the settings page can import them without server code
+export const API_TOKEN_SCOPES = ["activity:write", "activity:read"] as const;
+
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number];
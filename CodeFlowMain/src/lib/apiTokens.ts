@@ -0,0 +1,78 @@
+import { createHash, randomBytes } from "crypto";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { API_TOKEN_SCOPES, type ApiTokenScope } from "@/lib/apiTokenScopes";
+
+/**
+ * Personal access tokens let the VS Code extension call the API without a
+ * browser session. Only a SHA-256 hash is stored: the token itself is shown
+ * once, when it is created.
+ */
+
+export { API_TOKEN_SCOPES, type ApiTokenScope };
+
+export const API_TOKEN_PREFIX = "cf_pat_";
+// Characters of the token kept in plain text, enough to recognise it in the list
+const DISPLAY_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 6;
+// Syncs can run every few minutes, so the last-used time is only written this often
+const LAST_USED_INTERVAL = 5 * 60 * 1000;
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(API_TOKEN_SCOPES)).min(1),
+  // Tokens without an expiry last until they are revoked
+  expiresInDays: z.number().int().min(1).max(365).nullable()
+});
+
+export type AuthResult =
+  | { success: true; userId: string }
+  | { success: false; status: 401 | 403; error: string };
+
+export function generateApiToken(): { token: string; tokenHash: string; prefix: string } {
+  const token = API_TOKEN_PREFIX + randomBytes(32).toString("base64url");
+  return { token, tokenHash: hashApiToken(token), prefix: token.slice(0, DISPLAY_PREFIX_LENGTH) };
+}
+
+export function hashApiToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Resolve the user a request acts for. A bearer token must be a valid access
+ * token with the scope; requests without one fall back to the browser session,
+ * which the dashboard uses.
+ */
+export async function authenticateRequest(headers: Headers, scope: ApiTokenScope): Promise<AuthResult> {
+  const authorization = headers.get("authorization");
+  if (authorization?.toLowerCase().startsWith("bearer ")) {
+    return authenticateToken(authorization.slice("bearer ".length).trim(), scope);
+  }
+
+  const session = await auth.api.getSession({ headers });
+  if (!session?.user?.id) {
+    return { success: false, status: 401, error: "Unauthorized" };
+  }
+  return { success: true, userId: session.user.id };
+}
+
+async function authenticateToken(token: string, scope: ApiTokenScope): Promise<AuthResult> {
+  const apiToken: { id: string; userId: string; scopes: string[]; expiresAt: Date | null; lastUsedAt: Date | null } | null =
+    await prisma.apiToken.findUnique({
+      where: { tokenHash: hashApiToken(token) },
+      select: { id: true, userId: true, scopes: true, expiresAt: true, lastUsedAt: true }
+    });
+
+  const now = Date.now();
+  if (!apiToken || (apiToken.expiresAt && apiToken.expiresAt.getTime() <= now)) {
+    return { success: false, status: 401, error: "Invalid or expired token" };
+  }
+  if (!apiToken.scopes.includes(scope)) {
+    return { success: false, status: 403, error: `Token is missing the ${scope} scope` };
+  }
+
+  if (!apiToken.lastUsedAt || now - apiToken.lastUsedAt.getTime() > LAST_USED_INTERVAL) {
+    await prisma.apiToken.update({ where: { id: apiToken.id }, data: { lastUsedAt: new Date(now) } });
+  }
+  return { success: true, userId: apiToken.userId };
+}
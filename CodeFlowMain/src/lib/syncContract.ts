@@ -0,0 +1,318 @@
+import { z } from "zod";
+import type {
+  ActivityEvent,
+  ActivityType,
+  CommandActivityData,
+  DebugActivityData,
+  DiagnosticsSnapshotData,
+  EditActivityData,
+  FileActivityData,
+  GitActivityData,
+  HeartbeatData,
+  IdleActivityData,
+  Redacted,
+  SearchActivityData,
+  SessionData,
+  SyncCounts,
+  SyncErrorCode,
+  SyncItemStatus,
+  SyncResponse,
+  TaskActivityData,
+  TerminalCommandData
+} from "@codeflow/stats-engine";
+
+/**
+ * Schemas for `POST /api/devtracker/sync`. The models in the stats engine
+ * package are the source of truth: each schema is typed against the interface
+ * it checks, so a change on either side that breaks the contract fails to compile.
+ *
+ * Keys the extension's privacy policy can drop (`REDACTABLE_FIELD_KEYS`) must
+ * stay optional here, wherever they appear, or a policy would make data invalid.
+ */
+
+export const SYNC_LIMITS = {
+  maxEvents: 10000,
+  maxSessions: 1000,
+  maxIdLength: 200,
+  maxStringLength: 4096,
+  // Serialized size of one event's data
+  maxDataBytes: 32 * 1024,
+  maxFolders: 100,
+  // Nothing was recorded before VS Code existed
+  minTimestamp: Date.UTC(2015, 0, 1),
+  // How far ahead of the server's clock a client's may be
+  maxClockSkew: 24 * 60 * 60 * 1000
+};
+
+export type { SessionData, SyncCounts, SyncErrorCode, SyncItemStatus, SyncResponse };
+
+export type SyncEvent = Omit<ActivityEvent, "localOnly">;
+
+export type SyncSession = Redacted<SessionData>;
+
+export type SyncItemResult<T> =
+  | { success: true; data: T }
+  | { success: false; code: SyncErrorCode; error: string };
+
+const id = z.string().min(1).max(SYNC_LIMITS.maxIdLength);
+const text = z.string().max(SYNC_LIMITS.maxStringLength);
+const count = z.number().int().min(0);
+const duration = z.number().min(0);
+const workflowCategory = z.enum(["build", "test", "lint", "other"]);
+const editSource = z.enum(["typed", "pasted", "undo", "redo", "format", "completion"]);
+
+// Fields the schemas don't know about are kept, as the extension adds
+// details (save times, cursor ranges) that aren't part of the interfaces
+const baseData = {
+  fileName: text.optional(),
+  filePath: text.optional(),
+  fileExtension: text.optional(),
+  lineCount: count.optional(),
+  characterCount: count.optional(),
+  workspaceName: text.optional()
+};
+
+const fileData = {
+  ...baseData,
+  language: text.optional(),
+  isUntitled: z.boolean().optional(),
+  isDirty: z.boolean().optional(),
+  fileSize: count.optional(),
+  encoding: text.optional()
+};
+
+const fileDataSchema: z.ZodType<FileActivityData> = z.looseObject(fileData);
+
+const editDataSchema: z.ZodType<EditActivityData> = z.looseObject({
+  ...fileData,
+  linesAdded: count.optional(),
+  linesDeleted: count.optional(),
+  charactersAdded: count.optional(),
+  charactersDeleted: count.optional(),
+  editType: z.enum(["insert", "delete", "replace"]).optional(),
+  editSource: editSource.optional(),
+  sourceBreakdown: z.partialRecord(editSource, count).optional(),
+  cursorPosition: z.looseObject({ line: count, character: count }).optional()
+});
+
+const commandDataSchema: z.ZodType<CommandActivityData> = z.looseObject({
+  commandId: text,
+  commandTitle: text.optional(),
+  category: text.optional(),
+  executionTime: duration.optional()
+});
+
+const debugDataSchema: z.ZodType<DebugActivityData> = z.looseObject({
+  ...baseData,
+  debugType: text.optional(),
+  configurationName: text.optional(),
+  debugSessionId: text.optional(),
+  parentSessionId: text.optional(),
+  breakpointCount: count.optional(),
+  duration: duration.optional(),
+  stepCount: count.optional(),
+  exceptionCount: count.optional(),
+  breakpointHits: count.optional(),
+  action: z.enum(["add", "remove", "hit"]).optional(),
+  breakpointKind: text.optional(),
+  description: text.optional(),
+  functionName: text.optional(),
+  line: count.optional()
+});
+
+const gitDataSchema: z.ZodType<GitActivityData> = z.looseObject({
+  repository: text.optional(),
+  branch: text.optional(),
+  commitHash: text.optional(),
+  commitMessage: text.optional(),
+  filesChanged: count.optional(),
+  previousBranch: text.optional(),
+  commitCount: count.optional()
+});
+
+const searchDataSchema: z.ZodType<SearchActivityData> = z.looseObject({
+  query: text,
+  resultsCount: count.optional(),
+  searchScope: z.enum(["workspace", "file", "selection"]).optional(),
+  isRegex: z.boolean().optional(),
+  isCaseSensitive: z.boolean().optional()
+});
+
+const heartbeatDataSchema: z.ZodType<HeartbeatData> = z.looseObject({
+  ...baseData,
+  language: text.optional(),
+  branch: text.optional(),
+  isWrite: z.boolean().optional(),
+  cursorLine: count.optional()
+});
+
+const idleDataSchema: z.ZodType<IdleActivityData> = z.looseObject({
+  idleSince: z.number(),
+  idleDuration: duration.optional(),
+  reason: text.optional()
+});
+
+const terminalCommandDataSchema: z.ZodType<TerminalCommandData> = z.looseObject({
+  terminalName: text,
+  executable: text,
+  commandLine: text.optional(),
+  category: workflowCategory.optional(),
+  exitCode: z.number().int().optional(),
+  duration: duration.optional(),
+  confidence: z.enum(["low", "medium", "high"]).optional()
+});
+
+const taskDataSchema: z.ZodType<TaskActivityData> = z.looseObject({
+  taskName: text,
+  taskType: text,
+  scope: z.enum(["global", "workspace", "folder"]).optional(),
+  category: workflowCategory.optional(),
+  isBackground: z.boolean().optional(),
+  exitCode: z.number().int().optional(),
+  duration: duration.optional()
+});
+
+const diagnosticsDataSchema: z.ZodType<Redacted<DiagnosticsSnapshotData>> = z.looseObject({
+  errors: count,
+  warnings: count,
+  filesWithErrors: count,
+  files: z.array(z.looseObject({
+    fileName: text.optional(),
+    filePath: text.optional(),
+    language: text,
+    errors: count,
+    warnings: count
+  })),
+  languages: z.record(text, z.looseObject({ errors: count, warnings: count }))
+});
+
+// Events whose data has no interface of its own only have to be objects
+const otherDataSchema = z.looseObject({});
+
+// Keyed by every `ActivityType` value: a missing or unknown type fails to compile
+const DATA_SCHEMAS: Record<`${ActivityType}`, z.ZodType> = {
+  file_open: fileDataSchema,
+  file_close: fileDataSchema,
+  file_switch: fileDataSchema,
+  file_edit: editDataSchema,
+  file_save: fileDataSchema,
+  file_create: fileDataSchema,
+  file_delete: fileDataSchema,
+  file_rename: otherDataSchema,
+  command_execute: commandDataSchema,
+  debug_start: debugDataSchema,
+  debug_stop: debugDataSchema,
+  debug_breakpoint: debugDataSchema,
+  terminal_open: otherDataSchema,
+  terminal_close: otherDataSchema,
+  extension_install: otherDataSchema,
+  extension_uninstall: otherDataSchema,
+  workspace_open: otherDataSchema,
+  workspace_close: otherDataSchema,
+  focus_gained: otherDataSchema,
+  focus_lost: otherDataSchema,
+  task_start: taskDataSchema,
+  task_end: taskDataSchema,
+  git_commit: gitDataSchema,
+  git_push: gitDataSchema,
+  git_pull: gitDataSchema,
+  git_checkout: gitDataSchema,
+  git_merge: gitDataSchema,
+  search_performed: searchDataSchema,
+  heartbeat: heartbeatDataSchema,
+  idle_start: idleDataSchema,
+  idle_end: idleDataSchema,
+  terminal_command: terminalCommandDataSchema,
+  diagnostics_snapshot: diagnosticsDataSchema
+};
+
+const eventSchema = z.object({
+  id,
+  timestamp: z.number(),
+  type: z.string(),
+  data: z.unknown(),
+  workspaceId: text.optional(),
+  projectName: text.optional(),
+  sessionId: id,
+  instanceId: text.optional()
+});
+
+const sessionSchema: z.ZodType<SyncSession> = z.object({
+  id,
+  startTime: z.number(),
+  endTime: z.number().optional(),
+  workspaceId: text.optional(),
+  projectName: text.optional(),
+  workspaceFolders: z.array(z.looseObject({
+    workspaceId: text.optional(),
+    projectName: text.optional()
+  })).max(SYNC_LIMITS.maxFolders).optional(),
+  folderActivity: z.array(z.looseObject({
+    workspaceId: text.optional(),
+    projectName: text.optional(),
+    events: count,
+    activeTime: duration
+  })).max(SYNC_LIMITS.maxFolders).optional(),
+  totalEvents: count,
+  activeTime: duration
+});
+
+export const syncRequestSchema = z.object({
+  events: z.array(z.unknown()).max(SYNC_LIMITS.maxEvents),
+  sessions: z.array(z.unknown()).max(SYNC_LIMITS.maxSessions).optional()
+});
+
+export function parseSyncEvent(item: unknown, now = Date.now()): SyncItemResult<SyncEvent> {
+  const envelope = eventSchema.safeParse(item);
+  if (!envelope.success) {
+    return { success: false, code: "invalid_event", error: formatError(envelope.error) };
+  }
+
+  const { type, data, ...event } = envelope.data;
+  if (!Object.prototype.hasOwnProperty.call(DATA_SCHEMAS, type)) {
+    return { success: false, code: "invalid_type", error: `Unknown event type ${type.slice(0, 50)}` };
+  }
+  if (!isInTimeRange(event.timestamp, now)) {
+    return { success: false, code: "timestamp_out_of_range", error: "Timestamp is outside the accepted range" };
+  }
+
+  const size = Buffer.byteLength(JSON.stringify(data ?? {}));
+  if (size > SYNC_LIMITS.maxDataBytes) {
+    return { success: false, code: "payload_too_large", error: `Event data is ${size} bytes` };
+  }
+
+  const parsed = DATA_SCHEMAS[type as `${ActivityType}`].safeParse(data ?? {});
+  if (!parsed.success) {
+    return { success: false, code: "invalid_data", error: formatError(parsed.error) };
+  }
+
+  return {
+    success: true,
+    data: { ...event, type: type as ActivityType, data: parsed.data as ActivityEvent["data"] }
+  };
+}
+
+export function parseSyncSession(item: unknown, now = Date.now()): SyncItemResult<SyncSession> {
+  const parsed = sessionSchema.safeParse(item);
+  if (!parsed.success) {
+    return { success: false, code: "invalid_session", error: formatError(parsed.error) };
+  }
+
+  const session = parsed.data;
+  if (!isInTimeRange(session.startTime, now) ||
+      (session.endTime !== undefined && (!isInTimeRange(session.endTime, now) || session.endTime < session.startTime))) {
+    return { success: false, code: "timestamp_out_of_range", error: "Session times are outside the accepted range" };
+  }
+
+  return { success: true, data: session };
+}
+
+function isInTimeRange(time: number, now: number): boolean {
+  return time >= SYNC_LIMITS.minTimestamp && time <= now + SYNC_LIMITS.maxClockSkew;
+}
+
+// The first problem is enough to tell what went wrong
+export function formatError(error: z.ZodError): string {
+  const issue = error.issues[0];
+  return issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message;
+}
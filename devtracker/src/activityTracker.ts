@@ -1,53 +1,99 @@
 import * as vscode from 'vscode';
 import { DataManager } from './dataManager';
+import { Redactor } from './redactor';
+import { ExclusionRules } from './exclusionRules';
+import { GitTracker } from './gitTracker';
+import { DebugTracker } from './debugTracker';
+import { HeartbeatTracker } from './heartbeatTracker';
+import { IdleDetector } from './idleDetector';
+import { TerminalTracker } from './terminalTracker';
+import { TaskTracker } from './taskTracker';
+import { DiagnosticsTracker } from './diagnosticsTracker';
 import { 
   ActivityEvent, 
   ActivityType, 
   FileActivityData, 
   EditActivityData, 
   CommandActivityData,
-  DebugActivityData,
-  GitActivityData
+  GitActivityData,
+  EditSource
 } from './types';
 
+// The resource or folder an event should be attributed to
+type EventTarget = vscode.Uri | vscode.WorkspaceFolder;
+
+interface EditBuffer {
+  added: number;
+  deleted: number;
+  edits: number;
+  linesAdded: number;
+  linesDeleted: number;
+  sources: Partial<Record<EditSource, number>>;
+}
+
+// A single insert at least this large is treated as a paste or completion
+const LARGE_INSERT_CHARS = 40;
+// Save participants such as format on save edit within this time; a save that fails never reports back
+const SAVE_PARTICIPANT_TIMEOUT = 5 * 1000;
+
+// Completions and outcomes of work started earlier, recorded even while the window is unfocused
+const OUTCOME_EVENTS = new Set<ActivityType>([
+  ActivityType.TASK_END,
+  ActivityType.TERMINAL_COMMAND,
+  ActivityType.DEBUG_STOP,
+  ActivityType.GIT_COMMIT,
+  ActivityType.GIT_PUSH,
+  ActivityType.GIT_PULL,
+  ActivityType.GIT_CHECKOUT,
+  ActivityType.GIT_MERGE
+]);
+
 export class ActivityTracker implements vscode.Disposable {
   private disposables: vscode.Disposable[] = [];
   private dataManager: DataManager;
   private lastEditTime = new Map<string, number>();
-  private editBuffer = new Map<string, { added: number; deleted: number; edits: number }>();
+  private editBuffer = new Map<string, EditBuffer>();
+  private savingDocuments = new Map<string, NodeJS.Timeout>();
+  // Held until the workspace's exclusion rules are loaded, then recorded in order
+  private pendingEvents: Array<{ event: ActivityEvent; resource?: vscode.Uri; workspaceFolder?: vscode.WorkspaceFolder }> | null = [];
   private isActive = true;
-  private sessionId: string;
-  private focusTimer: NodeJS.Timeout | null = null;
   private editTimers = new Map<string, NodeJS.Timeout>();
   private originalExecuteCommand: typeof vscode.commands.executeCommand | null = null;
-
-  constructor(private context: vscode.ExtensionContext, dataManager: DataManager) {
+  private gitTracker: GitTracker | null = null;
+  private debugTracker: DebugTracker | null = null;
+  private heartbeatTracker: HeartbeatTracker | null = null;
+  private idleDetector: IdleDetector | null = null;
+  private terminalTracker: TerminalTracker | null = null;
+  private taskTracker: TaskTracker | null = null;
+  private diagnosticsTracker: DiagnosticsTracker | null = null;
+
+  constructor(
+    private context: vscode.ExtensionContext,
+    dataManager: DataManager,
+    private redactor: Redactor,
+    private exclusionRules: ExclusionRules
+  ) {
     this.dataManager = dataManager;
-    this.sessionId = this.generateSessionId();
+    this.exclusionRules.whenReady().then(() => this.recordPendingEvents());
     this.setupEventListeners();
     this.trackWorkspaceOpen();
     this.setupActivityMonitoring();
     this.setupGitTracking();
+    this.setupDebugTracking();
+    this.setupHeartbeats();
+    this.setupTerminalTracking();
+    this.setupTaskTracking();
+    this.setupDiagnosticsTracking();
     this.setupCommandTracking();
   }
 
-  private generateSessionId(): string {
-    try {
-      const timestamp = Date.now().toString();
-      const random = Math.random().toString(36).substring(2, 11);
-      return `session_${timestamp}_${random}`;
-    } catch (error) {
-      console.error('Error generating session ID:', error);
-      return `session_${Date.now()}_fallback`;
-    }
-  }
-
   private setupEventListeners(): void {
     try {
       // File system events
       this.disposables.push(
         vscode.workspace.onDidOpenTextDocument(this.onFileOpen.bind(this)),
         vscode.workspace.onDidCloseTextDocument(this.onFileClose.bind(this)),
+        vscode.workspace.onWillSaveTextDocument(event => this.onWillSave(event.document)),
         vscode.workspace.onDidSaveTextDocument(this.onFileSave.bind(this)),
         vscode.workspace.onDidChangeTextDocument(this.onFileEdit.bind(this)),
         vscode.workspace.onDidCreateFiles(this.onFileCreate.bind(this)),
@@ -61,12 +107,6 @@ export class ActivityTracker implements vscode.Disposable {
         vscode.window.onDidChangeWindowState(this.onWindowStateChange.bind(this))
       );
 
-      // Debug events
-      this.disposables.push(
-        vscode.debug.onDidStartDebugSession(this.onDebugStart.bind(this)),
-        vscode.debug.onDidTerminateDebugSession(this.onDebugStop.bind(this))
-      );
-
       // Terminal events
       this.disposables.push(
         vscode.window.onDidOpenTerminal(this.onTerminalOpen.bind(this)),
@@ -78,12 +118,6 @@ export class ActivityTracker implements vscode.Disposable {
         vscode.extensions.onDidChange(this.onExtensionsChange.bind(this))
       );
 
-      // Task events
-      this.disposables.push(
-        vscode.tasks.onDidStartTask(this.onTaskStart.bind(this)),
-        vscode.tasks.onDidEndTask(this.onTaskEnd.bind(this))
-      );
-
       // Workspace folder events
       this.disposables.push(
         vscode.workspace.onDidChangeWorkspaceFolders(this.onWorkspaceChange.bind(this))
@@ -121,16 +155,12 @@ export class ActivityTracker implements vscode.Disposable {
   }
 
   private setupActivityMonitoring(): void {
-    this.startInactivityTimer();
-  }
-
-  private startInactivityTimer(): void {
-    if (this.focusTimer) {
-      clearTimeout(this.focusTimer);
+    try {
+      this.idleDetector = new IdleDetector((type, data) => this.trackEvent(type, data));
+      this.disposables.push(this.idleDetector);
+    } catch (error) {
+      console.error('Failed to setup idle detection:', error);
     }
-    this.focusTimer = setTimeout(() => {
-      this.trackEvent(ActivityType.FOCUS_LOST, { reason: 'inactivity_timeout' });
-    }, 5 * 60 * 1000);
   }
 
   private isTrackingEnabled(): boolean {
@@ -138,18 +168,19 @@ export class ActivityTracker implements vscode.Disposable {
     return config.get<boolean>('enableTracking', true);
   }
 
-  private createEvent(type: ActivityType, data: any): ActivityEvent {
+  private createEvent(type: ActivityType, data: any, workspaceFolder?: vscode.WorkspaceFolder): ActivityEvent {
     return {
       id: this.generateId(),
       timestamp: Date.now(),
       type,
       data: {
         ...data,
-        workspaceName: this.getProjectName()
+        workspaceName: workspaceFolder?.name
       },
-      sessionId: this.sessionId,
-      workspaceId: this.getWorkspaceId(),
-      projectName: this.getProjectName()
+      sessionId: this.dataManager.getSessionId(),
+      instanceId: vscode.env.sessionId,
+      workspaceId: workspaceFolder?.uri.fsPath,
+      projectName: workspaceFolder?.name
     };
   }
 
@@ -157,32 +188,65 @@ export class ActivityTracker implements vscode.Disposable {
     return `${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
   }
 
-  private getWorkspaceId(): string | undefined {
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-    return workspaceFolder?.uri.fsPath;
-  }
+  /**
+   * Resolve the folder an event belongs to. Events about a resource are credited
+   * to the folder containing it; everything else goes to the active editor's folder.
+   */
+  private getWorkspaceFolder(target?: EventTarget): vscode.WorkspaceFolder | undefined {
+    if (target instanceof vscode.Uri) {
+      return vscode.workspace.getWorkspaceFolder(target);
+    }
+    if (target) {
+      return target;
+    }
 
-  private getProjectName(): string | undefined {
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-    return workspaceFolder?.name;
+    const activeDocument = vscode.window.activeTextEditor?.document;
+    const activeFolder = activeDocument ? vscode.workspace.getWorkspaceFolder(activeDocument.uri) : undefined;
+    return activeFolder || vscode.workspace.workspaceFolders?.[0];
   }
 
-  private trackEvent(type: ActivityType, data: any): void {
-    if (!this.isTrackingEnabled() || !this.isActive) return;
+  private trackEvent(type: ActivityType, data: any, target?: EventTarget): void {
+    if (!this.isTrackingEnabled()) return;
+    if (!this.isActive && !OUTCOME_EVENTS.has(type)) return;
 
     try {
       // Ensure data is an object
       const safeData = data || {};
-      
-      const event = this.createEvent(type, safeData);
-      if (event && this.dataManager) {
-        this.dataManager.addEvent(event);
+
+      const workspaceFolder = this.getWorkspaceFolder(target);
+      const resource = target instanceof vscode.Uri ? target : undefined;
+      const event = this.createEvent(type, safeData, workspaceFolder);
+
+      // Events from before the folders' `.devtracker.json` files are loaded wait for their rules
+      if (this.pendingEvents) {
+        this.pendingEvents.push({ event, resource, workspaceFolder });
+        return;
       }
+      this.recordEvent(event, resource, workspaceFolder);
     } catch (error) {
       console.error(`Failed to track event (${type}):`, error);
     }
   }
 
+  private recordEvent(event: ActivityEvent, resource: vscode.Uri | undefined, workspaceFolder: vscode.WorkspaceFolder | undefined): void {
+    if (this.exclusionRules.isExcluded(resource, workspaceFolder)) return;
+
+    event.localOnly = this.exclusionRules.isSyncDisabled(workspaceFolder?.uri.fsPath) || undefined;
+    this.dataManager.addEvent(this.redactor.redactEvent(event, 'local'));
+  }
+
+  private recordPendingEvents(): void {
+    const pending = this.pendingEvents || [];
+    this.pendingEvents = null;
+    pending.forEach(({ event, resource, workspaceFolder }) => {
+      try {
+        this.recordEvent(event, resource, workspaceFolder);
+      } catch (error) {
+        console.error(`Failed to track event (${event.type}):`, error);
+      }
+    });
+  }
+
   private getFileData(document: vscode.TextDocument): FileActivityData {
     try {
       if (!document) {
@@ -242,19 +306,27 @@ export class ActivityTracker implements vscode.Disposable {
 
   // Event handlers
   private onFileOpen(document: vscode.TextDocument): void {
-    this.trackEvent(ActivityType.FILE_OPEN, this.getFileData(document));
+    this.trackEvent(ActivityType.FILE_OPEN, this.getFileData(document), document.uri);
   }
 
   private onFileClose(document: vscode.TextDocument): void {
-    this.trackEvent(ActivityType.FILE_CLOSE, this.getFileData(document));
+    this.trackEvent(ActivityType.FILE_CLOSE, this.getFileData(document), document.uri);
     this.flushEditBuffer(document.uri.fsPath);
   }
 
+  private onWillSave(document: vscode.TextDocument): void {
+    const filePath = document.uri.fsPath;
+    clearTimeout(this.savingDocuments.get(filePath));
+    this.savingDocuments.set(filePath, setTimeout(() => this.savingDocuments.delete(filePath), SAVE_PARTICIPANT_TIMEOUT));
+  }
+
   private onFileSave(document: vscode.TextDocument): void {
+    clearTimeout(this.savingDocuments.get(document.uri.fsPath));
+    this.savingDocuments.delete(document.uri.fsPath);
     this.trackEvent(ActivityType.FILE_SAVE, {
       ...this.getFileData(document),
       saveTime: Date.now()
-    });
+    }, document.uri);
     // Also check for git operations when files are saved
     this.detectGitOperations(document);
   }
@@ -277,7 +349,7 @@ export class ActivityTracker implements vscode.Disposable {
           filePath: uri.fsPath,
           fileExtension: fileExt,
           createdAt: Date.now()
-        });
+        }, uri);
       });
     } catch (error) {
       console.error('Error in onFileCreate:', error);
@@ -302,7 +374,7 @@ export class ActivityTracker implements vscode.Disposable {
           filePath: uri.fsPath,
           fileExtension: fileExt,
           deletedAt: Date.now()
-        });
+        }, uri);
       });
     } catch (error) {
       console.error('Error in onFileDelete:', error);
@@ -329,7 +401,7 @@ export class ActivityTracker implements vscode.Disposable {
           oldFilePath: oldUri.fsPath,
           newFilePath: newUri.fsPath,
           renamedAt: Date.now()
-        });
+        }, newUri);
       });
     } catch (error) {
       console.error('Error in onFileRename:', error);
@@ -347,13 +419,13 @@ export class ActivityTracker implements vscode.Disposable {
 
     const lastEdit = this.lastEditTime.get(filePath) || 0;
     if (now - lastEdit < 1000) {
-      this.updateEditBuffer(filePath, event.contentChanges);
+      this.updateEditBuffer(filePath, event);
       return;
     }
 
     this.flushEditBuffer(filePath);
     this.lastEditTime.set(filePath, now);
-    this.updateEditBuffer(filePath, event.contentChanges);
+    this.updateEditBuffer(filePath, event);
 
     // Clear existing timer
     const existingTimer = this.editTimers.get(filePath);
@@ -370,16 +442,76 @@ export class ActivityTracker implements vscode.Disposable {
     this.editTimers.set(filePath, timer);
   }
 
-  private updateEditBuffer(filePath: string, changes: readonly vscode.TextDocumentContentChangeEvent[]): void {
-    const buffer = this.editBuffer.get(filePath) || { added: 0, deleted: 0, edits: 0 };
+  private updateEditBuffer(filePath: string, event: vscode.TextDocumentChangeEvent): void {
+    const buffer = this.editBuffer.get(filePath) || 
+      { added: 0, deleted: 0, edits: 0, linesAdded: 0, linesDeleted: 0, sources: {} };
+    const source = this.classifyEdit(filePath, event);
 
-    for (const change of changes) {
+    for (const change of event.contentChanges) {
       buffer.deleted += change.rangeLength;
       buffer.added += change.text.length;
+      buffer.linesDeleted += change.range.end.line - change.range.start.line;
+      buffer.linesAdded += (change.text.match(/\n/g) || []).length;
+      buffer.sources[source] = (buffer.sources[source] || 0) + change.text.length + change.rangeLength;
       buffer.edits++;
     }
 
     this.editBuffer.set(filePath, buffer);
+
+    if (source === 'completion') {
+      this.detectPaste(buffer, event.contentChanges[0].text);
+    }
+  }
+
+  private classifyEdit(filePath: string, event: vscode.TextDocumentChangeEvent): EditSource {
+    if (event.reason === vscode.TextDocumentChangeReason.Undo) return 'undo';
+    if (event.reason === vscode.TextDocumentChangeReason.Redo) return 'redo';
+    if (this.savingDocuments.has(filePath)) return 'format';
+
+    const changes = event.contentChanges;
+
+    // Formatters rewrite many ranges at once, mostly touching whitespace
+    if (changes.length > 1 && changes.every(c => c.text.trim() === '') && 
+        new Set(changes.map(c => c.text)).size > 1) {
+      return 'format';
+    }
+
+    // Large single inserts come from completions or the clipboard;
+    // detectPaste reclassifies them once the clipboard has been read
+    if (changes.length === 1 && changes[0].text.length >= LARGE_INSERT_CHARS) {
+      return 'completion';
+    }
+
+    return 'typed';
+  }
+
+  private async detectPaste(buffer: EditBuffer, text: string): Promise<void> {
+    try {
+      const clipboard = await vscode.env.clipboard.readText();
+      if (!clipboard || clipboard.replace(/\r\n/g, '\n') !== text.replace(/\r\n/g, '\n')) {
+        return;
+      }
+
+      // Move the characters over unless the buffer was already flushed
+      const moved = Math.min(buffer.sources.completion || 0, text.length);
+      buffer.sources.completion = (buffer.sources.completion || 0) - moved;
+      buffer.sources.pasted = (buffer.sources.pasted || 0) + moved;
+    } catch (error) {
+      console.error('Failed to read clipboard for paste detection:', error);
+    }
+  }
+
+  // The source that touched the most characters in a flushed edit
+  private getDominantSource(sources: Partial<Record<EditSource, number>>): EditSource {
+    let dominant: EditSource = 'typed';
+    let max = 0;
+    (Object.keys(sources) as EditSource[]).forEach(source => {
+      if ((sources[source] || 0) > max) {
+        max = sources[source]!;
+        dominant = source;
+      }
+    });
+    return dominant;
   }
 
   private flushEditBuffer(filePath: string): void {
@@ -402,12 +534,16 @@ export class ActivityTracker implements vscode.Disposable {
         ...this.getFileData(document),
         charactersAdded: buffer.added,
         charactersDeleted: buffer.deleted,
+        linesAdded: buffer.linesAdded,
+        linesDeleted: buffer.linesDeleted,
         editType: buffer.added > 0 && buffer.deleted > 0 ? 'replace' : 
                   buffer.added > 0 ? 'insert' : 'delete',
+        editSource: this.getDominantSource(buffer.sources),
+        sourceBreakdown: { ...buffer.sources },
         cursorPosition: vscode.window.activeTextEditor?.selection.active
       };
 
-      this.trackEvent(ActivityType.FILE_EDIT, editData);
+      this.trackEvent(ActivityType.FILE_EDIT, editData, document.uri);
     } catch (error) {
       console.error('Failed to flush edit buffer:', error);
     } finally {
@@ -423,7 +559,7 @@ export class ActivityTracker implements vscode.Disposable {
       ...this.getFileData(editor.document),
       cursorPosition: editor.selection.active,
       visibleRange: editor.visibleRanges[0]
-    });
+    }, editor.document.uri);
   }
 
   private onWindowStateChange(windowState: vscode.WindowState): void {
@@ -434,30 +570,6 @@ export class ActivityTracker implements vscode.Disposable {
     });
 
     this.isActive = windowState.focused;
-
-    if (windowState.focused) {
-      this.startInactivityTimer();
-    }
-  }
-
-  private onDebugStart(session: vscode.DebugSession): void {
-    const data: DebugActivityData = {
-      debugType: session.type,
-      configurationName: session.name,
-      breakpointCount: vscode.debug.breakpoints.length
-    };
-
-    this.trackEvent(ActivityType.DEBUG_START, data);
-  }
-
-  private onDebugStop(session: vscode.DebugSession): void {
-    const data: DebugActivityData = {
-      debugType: session.type,
-      configurationName: session.name,
-      breakpointCount: vscode.debug.breakpoints.length
-    };
-
-    this.trackEvent(ActivityType.DEBUG_STOP, data);
   }
 
   private onTerminalOpen(terminal: vscode.Terminal): void {
@@ -481,46 +593,30 @@ export class ActivityTracker implements vscode.Disposable {
     });
   }
 
-  private onTaskStart(event: vscode.TaskStartEvent): void {
-    this.trackEvent(ActivityType.TASK_START, {
-      taskName: event.execution.task.name,
-      taskType: event.execution.task.definition.type,
-      scope: event.execution.task.scope
-    });
-  }
-
-  private onTaskEnd(event: vscode.TaskEndEvent): void {
-    this.trackEvent(ActivityType.TASK_END, {
-      taskName: event.execution.task.name,
-      taskType: event.execution.task.definition.type,
-      scope: event.execution.task.scope
-    });
-  }
-
   private onWorkspaceChange(event: vscode.WorkspaceFoldersChangeEvent): void {
     event.added.forEach(folder => {
       this.trackEvent(ActivityType.WORKSPACE_OPEN, {
         workspacePath: folder.uri.fsPath,
         workspaceName: folder.name
-      });
+      }, folder.uri);
     });
 
+    // Removed folders can no longer be resolved from a URI, so pass the folder itself
     event.removed.forEach(folder => {
       this.trackEvent(ActivityType.WORKSPACE_CLOSE, {
         workspacePath: folder.uri.fsPath,
         workspaceName: folder.name
-      });
+      }, folder);
     });
   }
 
   private trackWorkspaceOpen(): void {
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-    if (workspaceFolder) {
+    vscode.workspace.workspaceFolders?.forEach(workspaceFolder => {
       this.trackEvent(ActivityType.WORKSPACE_OPEN, {
         workspacePath: workspaceFolder.uri.fsPath,
         workspaceName: workspaceFolder.name
-      });
-    }
+      }, workspaceFolder.uri);
+    });
   }
 
   public trackCommand(command: string | any, title?: string, executionTime?: number): void {
@@ -560,14 +656,69 @@ export class ActivityTracker implements vscode.Disposable {
 
   private setupGitTracking(): void {
     try {
-      // Git operations are now tracked through file saves and command execution
-      // This method is kept for future git-specific tracking enhancements
+      this.gitTracker = new GitTracker((type, data, resource) => this.trackEvent(type, data, resource));
+      this.disposables.push(this.gitTracker);
     } catch (error) {
       console.error('Failed to setup git tracking:', error);
     }
   }
 
+  private setupDebugTracking(): void {
+    try {
+      this.debugTracker = new DebugTracker((type, data, resource) => this.trackEvent(type, data, resource));
+      this.disposables.push(this.debugTracker);
+    } catch (error) {
+      console.error('Failed to setup debug tracking:', error);
+    }
+  }
+
+  private setupHeartbeats(): void {
+    try {
+      this.heartbeatTracker = new HeartbeatTracker(
+        (type, data, resource) => this.trackEvent(type, data, resource),
+        resource => this.gitTracker?.getBranch(resource),
+        () => this.idleDetector?.isIdle ?? false
+      );
+      this.disposables.push(this.heartbeatTracker);
+    } catch (error) {
+      console.error('Failed to setup heartbeats:', error);
+    }
+  }
+
+  private setupTerminalTracking(): void {
+    try {
+      this.terminalTracker = new TerminalTracker((type, data, resource) => this.trackEvent(type, data, resource));
+      this.disposables.push(this.terminalTracker);
+    } catch (error) {
+      console.error('Failed to setup terminal tracking:', error);
+    }
+  }
+
+  private setupTaskTracking(): void {
+    try {
+      this.taskTracker = new TaskTracker((type, data, resource) => this.trackEvent(type, data, resource));
+      this.disposables.push(this.taskTracker);
+    } catch (error) {
+      console.error('Failed to setup task tracking:', error);
+    }
+  }
+
+  private setupDiagnosticsTracking(): void {
+    try {
+      this.diagnosticsTracker = new DiagnosticsTracker(
+        (type, data) => this.trackEvent(type, data),
+        uri => this.exclusionRules.isExcluded(uri, vscode.workspace.getWorkspaceFolder(uri))
+      );
+      this.disposables.push(this.diagnosticsTracker);
+    } catch (error) {
+      console.error('Failed to setup diagnostics tracking:', error);
+    }
+  }
+
   private detectGitOperations(document: vscode.TextDocument): void {
+    // Commits are reported by GitTracker when the git extension is available
+    if (this.gitTracker?.isAvailable) return;
+
     try {
       const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri);
       if (!workspaceFolder) return;
@@ -581,7 +732,7 @@ export class ActivityTracker implements vscode.Disposable {
           commitMessage: document.getText().split('\n')[0], // First line as commit message
         };
 
-        this.trackEvent(ActivityType.GIT_COMMIT, gitData);
+        this.trackEvent(ActivityType.GIT_COMMIT, gitData, document.uri);
       }
     } catch (error) {
       console.error('Failed to detect git operations:', error);
@@ -606,12 +757,8 @@ export class ActivityTracker implements vscode.Disposable {
         clearTimeout(timer);
       }
       this.editTimers.clear();
-
-      // Clear focus timer
-      if (this.focusTimer) {
-        clearTimeout(this.focusTimer);
-        this.focusTimer = null;
-      }
+      this.savingDocuments.forEach(timer => clearTimeout(timer));
+      this.savingDocuments.clear();
 
       // Dispose all event listeners
       this.disposables.forEach(d => {
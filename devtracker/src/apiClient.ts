@@ -1,10 +1,17 @@
 import * as vscode from 'vscode';
 import axios, { AxiosInstance } from 'axios';
+import * as zlib from 'zlib';
+import { promisify } from 'util';
+import { ActivityEvent, SessionData, SyncResponse } from './types';
+
+const gzip = promisify(zlib.gzip);
+const SECRET_NAME = 'devActivityTracker.apiToken';
+// Smaller bodies aren't worth compressing
+const GZIP_MIN_BYTES = 1024;
 
 export class ApiClient {
   private client: AxiosInstance;
   private apiUrl: string;
-  private sessionToken: string | undefined;
 
   constructor(private context: vscode.ExtensionContext) {
     // Get configuration
@@ -19,11 +26,11 @@ export class ApiClient {
         'Content-Type': 'application/json'
       }
     });
-    
-    // Try to load saved token
-    this.sessionToken = this.context.globalState.get<string>('sessionToken');
-    if (this.sessionToken) {
-      this.client.defaults.headers.common['Authorization'] = `Bearer ${this.sessionToken}`;
+
+    // Earlier versions kept a browser session token here, in plain text. The
+    // API only accepts access tokens, so it is dropped rather than moved.
+    if (this.context.globalState.get<string>('sessionToken') !== undefined) {
+      this.context.globalState.update('sessionToken', undefined);
     }
   }
 
@@ -37,36 +44,41 @@ export class ApiClient {
   }
 
   /**
-   * Set auth session token
+   * Store a CodeFlow access token in SecretStorage
    */
-  public setSessionToken(token: string): void {
-    this.sessionToken = token;
-    this.client.defaults.headers.common['Authorization'] = `Bearer ${token}`;
-    this.context.globalState.update('sessionToken', token);
+  public async setApiToken(token: string): Promise<void> {
+    await this.context.secrets.store(SECRET_NAME, token);
   }
 
   /**
-   * Clear auth session token
+   * Forget the stored access token
    */
-  public clearSessionToken(): void {
-    this.sessionToken = undefined;
-    delete this.client.defaults.headers.common['Authorization'];
-    this.context.globalState.update('sessionToken', undefined);
+  public async clearApiToken(): Promise<void> {
+    await this.context.secrets.delete(SECRET_NAME);
+  }
+
+  // Read on every request, so all clients (and windows) use the latest token
+  private async getAuthHeaders(): Promise<Record<string, string> | undefined> {
+    const token = await this.context.secrets.get(SECRET_NAME);
+    return token ? { Authorization: `Bearer ${token}` } : undefined;
   }
 
   /**
    * Sync activity data with API
    */
-  public async syncActivityData(events: any[], sessions: any[]): Promise<any> {
+  public async syncActivityData(events: ActivityEvent[], sessions: SessionData[]): Promise<SyncResponse> {
     try {
-      if (!this.sessionToken) {
+      const headers = await this.getAuthHeaders();
+      if (!headers) {
         return { success: false, error: 'Not authenticated' };
       }
 
-      const response = await this.client.post('/devtracker/sync', {
-        events,
-        sessions
-      });
+      const body = JSON.stringify({ events, sessions });
+      const response = Buffer.byteLength(body) < GZIP_MIN_BYTES
+        ? await this.client.post<SyncResponse>('/devtracker/sync', body, { headers })
+        : await this.client.post<SyncResponse>('/devtracker/sync', await gzip(body), {
+          headers: { ...headers, 'Content-Encoding': 'gzip' }
+        });
 
       return response.data;
     } catch (error) {
@@ -80,11 +92,12 @@ export class ApiClient {
    */
   public async getActivityStats(days: number = 7): Promise<any> {
     try {
-      if (!this.sessionToken) {
+      const headers = await this.getAuthHeaders();
+      if (!headers) {
         return { success: false, error: 'Not authenticated' };
       }
 
-      const response = await this.client.get(`/devtracker/stats?days=${days}`);
+      const response = await this.client.get(`/devtracker/stats?days=${days}`, { headers });
       return response.data;
     } catch (error) {
       console.error('API stats error:', error);
@@ -93,15 +106,16 @@ export class ApiClient {
   }
 
   /**
-   * Check if connected to API
+   * Check that the stored token is accepted for syncing
    */
   public async testConnection(): Promise<boolean> {
     try {
-      if (!this.sessionToken) {
+      const headers = await this.getAuthHeaders();
+      if (!headers) {
         return false;
       }
       
-      await this.client.get('/auth/session');
+      await this.client.get('/devtracker/token', { headers });
       return true;
     } catch (error) {
       return false;
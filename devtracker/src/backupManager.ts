@@ -0,0 +1,237 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { promisify } from 'util';
+import { BackupSnapshot } from './types';
+import { DataManager } from './dataManager';
+import { withFileLock } from './fileLock';
+import { DataCipher } from './dataCipher';
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+// Encrypted backups get an `.enc` suffix, as they are no longer plain gzip files
+const BACKUP_PATTERN = /^activity-backup-(\d{8}T\d{6}Z)(-[\w-]+)?\.json\.gz(\.enc)?$/;
+// How often to check whether a scheduled backup is due
+const CHECK_INTERVAL = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface BackupInfo {
+  uri: vscode.Uri;
+  createdAt: number;
+  size: number;
+  // Why the backup was taken, when not on schedule (e.g. before clearing data)
+  reason?: string;
+}
+
+/**
+ * Writes gzipped snapshots of events, sessions and rollups on a schedule and
+ * rotates them by age and count. Backups go to `devActivityTracker.backup.folder`,
+ * which can point at a synced drive, or to the extension's storage by default.
+ */
+export class BackupManager implements vscode.Disposable {
+  private timer: NodeJS.Timeout | null = null;
+  private startupTimer: NodeJS.Timeout | null = null;
+  private configListener: vscode.Disposable;
+  private readonly lockPath: string;
+
+  constructor(
+    private context: vscode.ExtensionContext,
+    private dataManager: DataManager,
+    private cipher: DataCipher
+  ) {
+    this.lockPath = vscode.Uri.joinPath(context.globalStorageUri, 'backups.lock').fsPath;
+    this.timer = setInterval(() => this.backupIfDue(), CHECK_INTERVAL);
+    // Give storage a moment to finish loading first
+    this.startupTimer = setTimeout(() => this.backupIfDue(), 60 * 1000);
+    this.configListener = vscode.workspace.onDidChangeConfiguration(event => {
+      if (event.affectsConfiguration('devActivityTracker.encryptLocalData')) {
+        this.rewriteBackups().catch(error => console.error('Failed to rewrite backups:', error));
+      }
+    });
+  }
+
+  public getFolder(): string {
+    const config = vscode.workspace.getConfiguration('devActivityTracker');
+    const folder = config.get<string>('backup.folder', '').trim();
+    if (!folder) {
+      return vscode.Uri.joinPath(this.context.globalStorageUri, 'backups').fsPath;
+    }
+    return folder.startsWith('~') ? path.join(os.homedir(), folder.slice(1)) : folder;
+  }
+
+  private async backupIfDue(): Promise<void> {
+    const config = vscode.workspace.getConfiguration('devActivityTracker');
+    if (!config.get<boolean>('backup.enabled', true)) return;
+
+    const interval = config.get<number>('backup.intervalHours', 24) * 60 * 60 * 1000;
+    try {
+      // Windows share the folder; only the first one to find a backup due takes it
+      await withFileLock(this.lockPath, async () => {
+        const latest = (await this.listBackups()).find(backup => !backup.reason);
+        if (latest && Date.now() - latest.createdAt < interval) return;
+
+        await this.writeBackup();
+        await this.rotate();
+      });
+    } catch (error) {
+      console.error('Failed to create scheduled backup:', error);
+    }
+  }
+
+  /**
+   * Take a backup right away, e.g. before data is cleared or replaced
+   */
+  public async backup(reason?: string): Promise<BackupInfo> {
+    return withFileLock(this.lockPath, () => this.writeBackup(reason));
+  }
+
+  private async writeBackup(reason?: string): Promise<BackupInfo> {
+    const folder = this.getFolder();
+    await fs.mkdir(folder, { recursive: true });
+
+    const snapshot = await this.dataManager.createSnapshot();
+    const stamp = new Date(snapshot.createdAt).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    const content = await this.encode(snapshot);
+    const suffix = `${reason ? `-${reason}` : ''}.json.gz${this.isEncrypted(content) ? '.enc' : ''}`;
+    const filePath = path.join(folder, `activity-backup-${stamp}${suffix}`);
+
+    await this.writeFile(filePath, content);
+    return { uri: vscode.Uri.file(filePath), createdAt: snapshot.createdAt, size: content.length, reason };
+  }
+
+  // Never leave a truncated backup behind, even on a synced drive
+  private async writeFile(filePath: string, content: Buffer): Promise<void> {
+    await fs.writeFile(`${filePath}.tmp`, content);
+    await fs.rename(`${filePath}.tmp`, filePath);
+  }
+
+  // Compressed before encrypting, since ciphertext doesn't compress
+  private async encode(snapshot: BackupSnapshot): Promise<Buffer> {
+    const compressed = await gzip(Buffer.from(JSON.stringify(snapshot)));
+    const encrypted = this.cipher.encrypt(compressed.toString('base64'));
+    return this.cipher.isEncrypted(encrypted) ? Buffer.from(encrypted) : compressed;
+  }
+
+  private isEncrypted(content: Buffer): boolean {
+    return this.cipher.isEncrypted(content.subarray(0, 16).toString('latin1'));
+  }
+
+  private async decode(content: Buffer): Promise<BackupSnapshot> {
+    const compressed = this.isEncrypted(content)
+      ? Buffer.from(this.cipher.decrypt(content.toString('utf8')), 'base64')
+      : content;
+    return JSON.parse((await gunzip(compressed)).toString('utf8'));
+  }
+
+  /**
+   * Write every backup again with the current encryption setting and key
+   */
+  public async rewriteBackups(): Promise<void> {
+    if (this.cipher.isEnabled()) {
+      await this.cipher.ensureKey();
+    }
+    await this.cipher.whenReady();
+    await withFileLock(this.lockPath, async () => {
+      for (const backup of await this.listBackups()) {
+        try {
+          const content = await this.encode(await this.decode(await fs.readFile(backup.uri.fsPath)));
+          const filePath = backup.uri.fsPath.replace(/(\.enc)?$/, this.isEncrypted(content) ? '.enc' : '');
+
+          await this.writeFile(filePath, content);
+          if (filePath !== backup.uri.fsPath) {
+            await fs.rm(backup.uri.fsPath, { force: true });
+          }
+        } catch (error) {
+          console.error(`Failed to rewrite backup ${backup.uri.fsPath}:`, error);
+        }
+      }
+    });
+  }
+
+  /**
+   * IDs of the encryption keys backups were written with
+   */
+  public async getKeyIdsInUse(): Promise<Set<string>> {
+    const keyIds = new Set<string>();
+    for (const backup of await this.listBackups()) {
+      const keyId = this.cipher.getKeyId((await fs.readFile(backup.uri.fsPath)).subarray(0, 64).toString('latin1'));
+      if (keyId) keyIds.add(keyId);
+    }
+    return keyIds;
+  }
+
+  /**
+   * Backups in the configured folder, newest first
+   */
+  public async listBackups(): Promise<BackupInfo[]> {
+    const folder = this.getFolder();
+    const entries = await fs.readdir(folder).catch(() => [] as string[]);
+    const backups: BackupInfo[] = [];
+
+    for (const entry of entries) {
+      const match = BACKUP_PATTERN.exec(entry);
+      if (!match) continue;
+
+      const stamp = match[1];
+      const createdAt = Date.parse(
+        `${stamp.slice(0, 4)}-${stamp.slice(4, 6)}-${stamp.slice(6, 8)}T${stamp.slice(9, 11)}:${stamp.slice(11, 13)}:${stamp.slice(13, 15)}Z`
+      );
+      const stats = await fs.stat(path.join(folder, entry)).catch(() => undefined);
+      if (!stats) continue;
+
+      backups.push({
+        uri: vscode.Uri.file(path.join(folder, entry)),
+        createdAt,
+        size: stats.size,
+        reason: match[2]?.slice(1)
+      });
+    }
+
+    return backups.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  public async readBackup(uri: vscode.Uri): Promise<BackupSnapshot> {
+    await this.cipher.whenReady();
+    const snapshot = await this.decode(await fs.readFile(uri.fsPath));
+    if (!Array.isArray(snapshot.events)) {
+      throw new Error(`${path.basename(uri.fsPath)} is not an activity backup`);
+    }
+    return snapshot;
+  }
+
+  /**
+   * Delete backups past `backup.maxAgeDays`, then all but the newest `backup.maxCount`.
+   * The newest backup is always kept.
+   */
+  private async rotate(): Promise<void> {
+    const config = vscode.workspace.getConfiguration('devActivityTracker');
+    const maxCount = Math.max(1, config.get<number>('backup.maxCount', 10));
+    const maxAge = config.get<number>('backup.maxAgeDays', 90) * DAY_MS;
+
+    const backups = await this.listBackups();
+    const expired = backups.filter((backup, index) =>
+      index > 0 && (index >= maxCount || Date.now() - backup.createdAt > maxAge)
+    );
+
+    for (const backup of expired) {
+      await fs.rm(backup.uri.fsPath, { force: true }).catch(error => {
+        console.error(`Failed to delete old backup ${backup.uri.fsPath}:`, error);
+      });
+    }
+  }
+
+  public dispose(): void {
+    this.configListener.dispose();
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (this.startupTimer) {
+      clearTimeout(this.startupTimer);
+      this.startupTimer = null;
+    }
+  }
+}
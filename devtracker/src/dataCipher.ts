@@ -0,0 +1,217 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+
+const SECRET_NAME = 'devActivityTracker.encryptionKeys';
+const PREFIX = 'enc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+interface KeyRing {
+  current: string;
+  // Base64 keys by ID: the current one and those stored data may still use
+  keys: Record<string, string>;
+}
+
+/**
+ * Data was encrypted with a key that isn't loaded, or encryption is on and no
+ * key is. Whatever hit it must leave the stored files as they are.
+ */
+export class MissingKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MissingKeyError';
+  }
+}
+
+/**
+ * Encrypts stored activity data with AES-256-GCM when
+ * `devActivityTracker.encryptLocalData` is on. The key is generated on first
+ * use and kept in SecretStorage, never next to the data.
+ *
+ * Each value is encrypted on its own as `enc:v1:<keyId>:<base64>`, so files can
+ * mix plaintext and encrypted lines while they are being converted, and
+ * decryption picks the key the value was written with. After a rotation the
+ * previous keys are kept until nothing stored uses them any more, since other
+ * windows' journals may still hold lines written with them.
+ *
+ * With encryption on and no key available (e.g. SecretStorage failed to load)
+ * nothing is written at all, rather than falling back to plaintext.
+ */
+export class DataCipher implements vscode.Disposable {
+  private keys = new Map<string, Buffer>();
+  private currentKeyId: string | undefined;
+  private ready: Promise<void>;
+  private secretsListener: vscode.Disposable;
+  private missingKeyReported = false;
+
+  constructor(private context: vscode.ExtensionContext) {
+    this.ready = this.initialize();
+    // Another window generated or rotated the key
+    this.secretsListener = context.secrets.onDidChange(event => {
+      if (event.key === SECRET_NAME) {
+        this.enqueue(() => this.loadKeys()).catch(error => console.error('Failed to reload encryption keys:', error));
+      }
+    });
+  }
+
+  private async initialize(): Promise<void> {
+    try {
+      await this.loadKeys();
+      if (this.isEnabled()) {
+        await this.createKeyIfMissing();
+      }
+    } catch (error) {
+      console.error('Failed to load encryption keys:', error);
+      if (this.isEnabled()) {
+        this.reportMissingKey();
+      }
+    }
+  }
+
+  // Shown once per window: every write fails the same way until the key is back
+  private reportMissingKey(): void {
+    if (this.missingKeyReported) return;
+    this.missingKeyReported = true;
+    vscode.window.showErrorMessage(
+      'Activity data is not being saved: local encryption is on but the encryption key could not be loaded from the system keychain. Reload the window to try again.'
+    );
+  }
+
+  /**
+   * Resolves once the keys are loaded; writers wait for it so nothing is
+   * written in plaintext just because the key wasn't read yet
+   */
+  public whenReady(): Promise<void> {
+    return this.ready;
+  }
+
+  public isEnabled(): boolean {
+    const config = vscode.workspace.getConfiguration('devActivityTracker');
+    return config.get<boolean>('encryptLocalData', false);
+  }
+
+  public ensureKey(): Promise<void> {
+    return this.enqueue(() => this.createKeyIfMissing()).catch(error => {
+      this.reportMissingKey();
+      throw error;
+    });
+  }
+
+  private async createKeyIfMissing(): Promise<void> {
+    if (this.currentKeyId) return;
+
+    // Another window may have generated one since the keys were loaded
+    await this.loadKeys();
+    if (this.currentKeyId) return;
+    await this.storeKeys(this.generateKey(), new Map());
+  }
+
+  /**
+   * Switch to a new key. Data written with the old ones stays readable; callers
+   * should rewrite stored data right after and then `retireUnusedKeys`.
+   */
+  public rotateKey(): Promise<void> {
+    return this.enqueue(async () => {
+      // Another window may have added keys since they were loaded
+      await this.loadKeys();
+      await this.storeKeys(this.generateKey(), new Map(this.keys));
+    });
+  }
+
+  /**
+   * Forget previous keys that no stored data uses any more. `inUse` must list
+   * the key IDs found in everything that is still encrypted.
+   */
+  public retireUnusedKeys(inUse: Set<string>): Promise<void> {
+    return this.enqueue(async () => {
+      await this.loadKeys();
+      if (!this.currentKeyId) return;
+
+      const current = { id: this.currentKeyId, key: this.keys.get(this.currentKeyId)! };
+      const kept = new Map(Array.from(this.keys).filter(([id]) => id !== current.id && inUse.has(id)));
+      if (kept.size === this.keys.size - 1) return;
+      await this.storeKeys(current, kept);
+    });
+  }
+
+  /**
+   * Throws a MissingKeyError when encryption is on but no key is loaded
+   */
+  public encrypt(text: string): string {
+    if (!this.isEnabled()) return text;
+    if (!this.currentKeyId) {
+      throw new MissingKeyError('Encryption is on but no encryption key is loaded');
+    }
+
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv(ALGORITHM, this.keys.get(this.currentKeyId)!, iv);
+    const encrypted = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()]);
+    return `${PREFIX}${this.currentKeyId}:${Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64')}`;
+  }
+
+  /**
+   * Plaintext is returned unchanged. Throws a MissingKeyError for data written
+   * with a key that isn't loaded.
+   */
+  public decrypt(text: string): string {
+    if (!this.isEncrypted(text)) return text;
+
+    const separator = text.indexOf(':', PREFIX.length);
+    const keyId = text.slice(PREFIX.length, separator);
+    const key = this.keys.get(keyId);
+    if (!key) {
+      throw new MissingKeyError(`Data was encrypted with unknown key ${keyId}`);
+    }
+
+    const payload = Buffer.from(text.slice(separator + 1), 'base64');
+    const decipher = crypto.createDecipheriv(ALGORITHM, key, payload.subarray(0, IV_LENGTH));
+    decipher.setAuthTag(payload.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+    return Buffer.concat([decipher.update(payload.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]).toString('utf8');
+  }
+
+  public isEncrypted(text: string): boolean {
+    return text.startsWith(PREFIX);
+  }
+
+  // ID of the key an encrypted value was written with
+  public getKeyId(text: string): string | undefined {
+    if (!this.isEncrypted(text)) return undefined;
+    return text.slice(PREFIX.length, text.indexOf(':', PREFIX.length));
+  }
+
+  private generateKey(): { id: string; key: Buffer } {
+    return { id: crypto.randomBytes(4).toString('hex'), key: crypto.randomBytes(32) };
+  }
+
+  private async loadKeys(): Promise<void> {
+    const stored = await this.context.secrets.get(SECRET_NAME);
+    this.keys.clear();
+    this.currentKeyId = undefined;
+    if (!stored) return;
+
+    const keyRing: KeyRing = JSON.parse(stored);
+    Object.entries(keyRing.keys).forEach(([id, key]) => this.keys.set(id, Buffer.from(key, 'base64')));
+    this.currentKeyId = keyRing.current;
+  }
+
+  private async storeKeys(current: { id: string; key: Buffer }, others: Map<string, Buffer>): Promise<void> {
+    const keyRing: KeyRing = { current: current.id, keys: { [current.id]: current.key.toString('base64') } };
+    others.forEach((key, id) => keyRing.keys[id] = key.toString('base64'));
+    await this.context.secrets.store(SECRET_NAME, JSON.stringify(keyRing));
+
+    this.keys = new Map([...others, [current.id, current.key]]);
+    this.currentKeyId = current.id;
+  }
+
+  // Key changes run one at a time, so two callers never both generate a key
+  private enqueue(operation: () => Promise<void>): Promise<void> {
+    const result = this.ready.then(operation);
+    this.ready = result.catch(() => undefined);
+    return result;
+  }
+
+  public dispose(): void {
+    this.secretsListener.dispose();
+  }
+}
@@ -1,34 +1,100 @@
 import * as vscode from 'vscode';
+import { StatsEngine, getDayKey } from '@codeflow/stats-engine';
 import { 
   ActivityEvent, 
   ActivityStats, 
   ActivityType, 
   SessionData, 
   ExportData,
+  WorkspaceFolderInfo,
   FileActivityData,
-  CommandActivityData,
   BaseActivityData,
-  ActivityData
+  ActivityData,
+  BackupSnapshot,
+  SyncResult,
+  SyncItemStatus
 } from './types';
 import { ApiClient } from './apiClient';
+import { Redactor } from './redactor';
+import { ExclusionRules } from './exclusionRules';
+import { EventJournal } from './eventJournal';
+import { RollupStore } from './rollupStore';
+import { LockTimeoutError, withFileLock } from './fileLock';
+import { StorageMigrator, STORAGE_VERSION, deleteStorageCopies, getSessionReplacements, moveCorruptFile } from './storageMigrations';
+import { ActivityImporter, ImportedActivity, ImportSummary } from './importer';
+import { ActivityExporter, ExportOptions, EXPORT_FORMATS } from './exporter';
+import { DataCipher, MissingKeyError } from './dataCipher';
+import { SyncOutbox } from './syncOutbox';
+
+// Days of events loaded at startup; older days are read from disk on demand
+const PRELOAD_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Minimum gap between picking up events recorded by other windows
+const RELOAD_INTERVAL = 60 * 1000;
+const SYNC_INTERVAL = 5 * 60 * 1000;
+// Matches the default of `devActivityTracker.rollupRetentionDays` in package.json
+const DEFAULT_ROLLUP_RETENTION_DAYS = 1825;
+// Windows store a new session within seconds; an event whose session is still missing after this lost it
+const MISSING_SESSION_GRACE = 10 * 60 * 1000;
 
 export class DataManager {
-  private storageUri: vscode.Uri;
   private sessionsUri: vscode.Uri;
+  private sessionsLockPath: string;
+  private syncLockPath: string;
+  private journal: EventJournal;
+  private rollups: RollupStore;
+  // In-memory window of events, complete from `loadedFrom` onwards
   private events: ActivityEvent[] = [];
+  private loadedFrom = Date.now();
+  private lastReload = 0;
   private sessions: SessionData[] = [];
   private currentSession: SessionData | null = null;
+  // Stamped on every event this window records; kept once the session has ended
+  private sessionId = '';
   private readonly maxEvents = 50000;
   private saveTimer: NodeJS.Timeout | null = null;
   private apiClient: ApiClient;
   private syncTimer: NodeJS.Timeout | null = null;
-
-  constructor(private context: vscode.ExtensionContext) {
-    this.storageUri = vscode.Uri.joinPath(context.globalStorageUri, 'activity-data.json');
+  private retryTimer: NodeJS.Timeout | null = null;
+  private syncOutbox: SyncOutbox;
+  private syncInProgress = false;
+  private workspaceListener: vscode.Disposable;
+  private windowStateListener: vscode.Disposable;
+  private configListener: vscode.Disposable;
+
+  constructor(
+    private context: vscode.ExtensionContext,
+    private redactor: Redactor,
+    private exclusionRules: ExclusionRules,
+    private cipher: DataCipher
+  ) {
     this.sessionsUri = vscode.Uri.joinPath(context.globalStorageUri, 'sessions-data.json');
+    this.sessionsLockPath = vscode.Uri.joinPath(context.globalStorageUri, 'sessions-data.lock').fsPath;
+    this.syncLockPath = vscode.Uri.joinPath(context.globalStorageUri, 'sync.lock').fsPath;
+    // Each window keeps its own journal
+    this.journal = new EventJournal(context.globalStorageUri, vscode.env.sessionId, cipher);
+    this.rollups = new RollupStore(context.globalStorageUri, () => this.getIdleTimeout(), cipher);
+    this.syncOutbox = new SyncOutbox(context.globalStorageUri);
+    // Started before anything is loaded, so events recorded meanwhile already belong to it
+    this.startNewSession();
     this.initializeStorage();
     this.apiClient = new ApiClient(context);
     this.setupPeriodicSync();
+    this.workspaceListener = vscode.workspace.onDidChangeWorkspaceFolders(() => this.recordWorkspaceFolders());
+    this.windowStateListener = vscode.window.onDidChangeWindowState(state => {
+      if (state.focused) {
+        this.reloadEvents();
+      }
+    });
+    this.configListener = vscode.workspace.onDidChangeConfiguration(event => {
+      if (event.affectsConfiguration('devActivityTracker.encryptLocalData')) {
+        this.rewriteStorage().catch(error => console.error('Failed to rewrite activity data:', error));
+      }
+      if (event.affectsConfiguration('devActivityTracker.enableSync') && this.isSyncEnabled()) {
+        // Events recorded while sync was off were not collected
+        this.seedSyncOutbox().catch(error => console.error('Failed to collect events to sync:', error));
+      }
+    });
   }
 
   // Type guard functions
@@ -37,18 +103,23 @@ export class DataManager {
            ('fileName' in data || 'filePath' in data || 'language' in data);
   }
 
-  private isCommandActivityData(data: ActivityData): data is CommandActivityData {
-    return data && typeof data === 'object' && 'commandId' in data;
-  }
-
   private async initializeStorage(): Promise<void> {
     try {
-      await vscode.workspace.fs.createDirectory(
-        vscode.Uri.joinPath(this.storageUri, '..')
-      );
+      await vscode.workspace.fs.createDirectory(this.context.globalStorageUri);
+      // Stored files can only be read once the encryption keys are loaded
+      await this.cipher.whenReady();
+      await new StorageMigrator(this.context.globalStorageUri, this.cipher).run();
+      await this.journal.initialize();
+      // Fold whatever the previous run left in the journal into its segments
+      await this.journal.compact();
       await this.loadData();
-      this.startNewSession();
+      await this.loadRollups();
+      // Only once rollups are loaded, so expiring days are summarized first
+      this.cleanOldData();
       this.startPeriodicCleanup();
+      if (this.isSyncEnabled() && !(await this.syncOutbox.isSeeded())) {
+        await this.seedSyncOutbox();
+      }
     } catch (error) {
       console.error('Failed to initialize storage:', error);
     }
@@ -56,55 +127,166 @@ export class DataManager {
 
   private async loadData(): Promise<void> {
     try {
-      // Load events
-      const eventsData = await vscode.workspace.fs.readFile(this.storageUri);
-      const eventsJson = JSON.parse(eventsData.toString());
-      this.events = eventsJson.events || [];
+      const preloadFrom = Date.now() - PRELOAD_DAYS * DAY_MS;
+      const loaded = await this.journal.read(preloadFrom);
+      // Events tracked while loading are already in memory
+      this.events = this.mergeEvents(loaded, this.events);
+      this.loadedFrom = preloadFrom;
+      this.lastReload = Date.now();
+    } catch (error) {
+      console.error('Failed to load activity events:', error);
+    }
 
-      // Load sessions
-      const sessionsData = await vscode.workspace.fs.readFile(this.sessionsUri);
-      const sessionsJson = JSON.parse(sessionsData.toString());
-      this.sessions = sessionsJson.sessions || [];
+    try {
+      this.sessions = await this.readStoredSessions();
+    } catch (error) {
+      // The file stays as it is; saves fail the same way until the key is back
+      console.error('Failed to load sessions:', error);
+    }
+  }
 
-      this.cleanOldData();
+  /**
+   * Bring rollups up to date: days missing one (e.g. after upgrading) are built
+   * from the stored events, the preloaded days from memory
+   */
+  private async loadRollups(): Promise<void> {
+    try {
+      await this.rollups.load();
+
+      // Includes days that expired while VS Code was closed, which are still on disk.
+      // The preloaded range usually starts mid-day; that day is built from disk too.
+      const oldestSegment = await this.journal.getOldestSegmentTime();
+      const backfillUntil = Date.parse(getDayKey(this.loadedFrom)) + DAY_MS - 1;
+      await this.completeRollups(oldestSegment ?? this.loadedFrom, backfillUntil);
+
+      this.rollups.rebuild(this.events, this.loadedFrom, Date.now(), true);
     } catch (error) {
-      // Files don't exist or are corrupted, start fresh
-      this.events = [];
-      this.sessions = [];
+      console.error('Failed to load activity rollups:', error);
     }
   }
 
-  private async saveData(): Promise<void> {
+  /**
+   * Build rollups from the stored events for days in range that don't have a complete one
+   */
+  private async completeRollups(startTime: number, endTime: number): Promise<void> {
+    const firstIncomplete = this.rollups.findFirstIncompleteDay(startTime, endTime);
+    if (firstIncomplete === undefined) return;
+
+    const events = await this.journal.read(firstIncomplete, endTime);
+    this.rollups.rebuild(events, firstIncomplete, endTime);
+  }
+
+  /**
+   * Make sure events from `startTime` onwards are held in memory
+   */
+  private async ensureLoaded(startTime: number): Promise<void> {
+    if (startTime >= this.loadedFrom) return;
+
+    const older = await this.journal.read(startTime, this.loadedFrom - 1);
+    this.events = this.mergeEvents(older, this.events);
+    this.loadedFrom = startTime;
+  }
+
+  /**
+   * Pick up events other windows have written since they were loaded
+   */
+  private async reloadEvents(): Promise<void> {
+    if (Date.now() - this.lastReload < RELOAD_INTERVAL) return;
+    this.lastReload = Date.now();
+
     try {
-      // Save events
-      const eventsData = {
-        events: this.events,
-        lastUpdated: Date.now(),
-        version: '1.0.0'
-      };
-      
-      await vscode.workspace.fs.writeFile(
-        this.storageUri,
-        Buffer.from(JSON.stringify(eventsData, null, 2))
-      );
-
-      // Save sessions
-      const sessionsData = {
-        sessions: this.sessions,
-        currentSession: this.currentSession,
-        lastUpdated: Date.now(),
-        version: '1.0.0'
-      };
+      const loaded = await this.journal.read(this.loadedFrom);
+      this.events = this.mergeEvents(loaded, this.events);
+      // Other windows keep rollups of their own events
+      await this.rollups.load();
+    } catch (error) {
+      console.error('Failed to reload activity events:', error);
+    }
+  }
+
+  private mergeEvents(stored: ActivityEvent[], inMemory: ActivityEvent[]): ActivityEvent[] {
+    const known = new Set(inMemory.map(e => e.id));
+    return [...stored.filter(e => !known.has(e.id)), ...inMemory]
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
 
-      await vscode.workspace.fs.writeFile(
-        this.sessionsUri,
-        Buffer.from(JSON.stringify(sessionsData, null, 2))
-      );
+  /**
+   * Events are persisted by the journal; only the small sessions file is
+   * rewritten. Sessions written by other windows are merged in unless `replace`.
+   */
+  private async saveData(replace = false): Promise<void> {
+    try {
+      await this.cipher.whenReady();
+      await withFileLock(this.sessionsLockPath, async () => {
+        if (!replace) {
+          this.sessions = this.mergeSessions(await this.readStoredSessions(), this.sessions);
+        }
+
+        // Live sessions are stored with the rest, so whichever window syncs can send them before their events
+        const sessionsData = {
+          sessions: this.getAllSessions(),
+          currentSession: this.currentSession,
+          lastUpdated: Date.now(),
+          version: STORAGE_VERSION
+        };
+
+        // Write next to the file and swap it in so a crash never leaves it truncated
+        const tempUri = vscode.Uri.joinPath(this.context.globalStorageUri, `sessions-data.${vscode.env.sessionId}.tmp`);
+        await vscode.workspace.fs.writeFile(tempUri, Buffer.from(this.cipher.encrypt(JSON.stringify(sessionsData, null, 2))));
+        await vscode.workspace.fs.rename(tempUri, this.sessionsUri, { overwrite: true });
+      });
     } catch (error) {
       console.error('Failed to save data:', error);
     }
   }
 
+  private async readStoredSessions(): Promise<SessionData[]> {
+    let sessionsData: Uint8Array;
+    try {
+      sessionsData = await vscode.workspace.fs.readFile(this.sessionsUri);
+    } catch {
+      // Not written yet
+      return [];
+    }
+
+    try {
+      const sessions: SessionData[] = JSON.parse(this.cipher.decrypt(Buffer.from(sessionsData).toString('utf8'))).sessions || [];
+      // This window's live session is kept apart until it ends
+      return sessions.filter(session => session.id !== this.currentSession?.id);
+    } catch (error) {
+      // Not corrupt, just unreadable without its key
+      if (error instanceof MissingKeyError) throw error;
+      console.error('Failed to parse sessions-data.json:', error);
+      await moveCorruptFile(this.context.globalStorageUri, this.sessionsUri);
+      return [];
+    }
+  }
+
+  // Stored sessions of every window, this window's live one included
+  private getAllSessions(): SessionData[] {
+    return [...this.sessions, ...(this.currentSession ? [this.currentSession] : [])];
+  }
+
+  /**
+   * Union of both lists; for a session known to both, the copy that ran longest wins
+   */
+  private mergeSessions(stored: SessionData[], inMemory: SessionData[]): SessionData[] {
+    const cutoffDate = this.getRetentionCutoff();
+    const merged = new Map<string, SessionData>();
+
+    [...stored, ...inMemory]
+      .filter(session => session.startTime >= cutoffDate)
+      .forEach(session => {
+        const existing = merged.get(session.id);
+        const end = session.endTime ?? session.startTime;
+        if (!existing || end >= (existing.endTime ?? existing.startTime)) {
+          merged.set(session.id, session);
+        }
+      });
+
+    return Array.from(merged.values()).sort((a, b) => a.startTime - b.startTime);
+  }
+
   private debouncedSave(): void {
     if (this.saveTimer) {
       clearTimeout(this.saveTimer);
@@ -116,6 +298,13 @@ export class DataManager {
 
   public addEvent(event: ActivityEvent): void {
     this.events.push(event);
+    // Critical events are written right away, the rest in small batches
+    this.journal.append(event, this.isCriticalEvent(event.type));
+    this.rollups.add(event);
+    // Folders that opted out of sync only ever stay local
+    if (!event.localOnly && this.isSyncEnabled()) {
+      this.syncOutbox.add([event]);
+    }
     
     // Update current session
     if (this.currentSession) {
@@ -123,17 +312,13 @@ export class DataManager {
       this.currentSession.endTime = Date.now();
     }
 
-    // Prevent memory issues
+    // Prevent memory issues; trimmed events stay on disk
     if (this.events.length > this.maxEvents) {
       this.events = this.events.slice(-Math.floor(this.maxEvents * 0.8));
+      this.loadedFrom = this.events[0].timestamp;
     }
 
-    // Save immediately for critical events, debounce for others
-    if (this.isCriticalEvent(event.type)) {
-      this.saveData();
-    } else {
-      this.debouncedSave();
-    }
+    this.debouncedSave();
   }
 
   private isCriticalEvent(type: ActivityType): boolean {
@@ -148,36 +333,81 @@ export class DataManager {
   private startNewSession(): void {
     // End current session if exists
     if (this.currentSession) {
-      this.currentSession.endTime = Date.now();
+      this.closeSession(this.currentSession);
       this.sessions.push(this.currentSession);
     }
 
     // Start new session
+    this.sessionId = this.generateSessionId();
     this.currentSession = {
-      id: this.generateSessionId(),
+      id: this.sessionId,
       startTime: Date.now(),
       workspaceId: this.getWorkspaceId(),
       projectName: this.getProjectName(),
+      workspaceFolders: this.getWorkspaceFolders(),
       totalEvents: 0,
       activeTime: 0
     };
   }
 
+  /**
+   * Session the events recorded in this window belong to, which the server
+   * matches them to when they are synced
+   */
+  public getSessionId(): string {
+    return this.sessionId;
+  }
+
+  private closeSession(session: SessionData): void {
+    session.endTime = Date.now();
+
+    const sessionEvents = this.events.filter(e => 
+      e.timestamp >= session.startTime && e.timestamp <= session.endTime!
+    );
+    session.activeTime = this.getStatsEngine().calculateActiveTime(sessionEvents);
+    session.folderActivity = this.getStatsEngine().getProjectActivity(sessionEvents);
+  }
+
+  /**
+   * Keep every folder that was open at some point during the current session
+   */
+  private recordWorkspaceFolders(): void {
+    if (!this.currentSession) return;
+
+    const known = this.currentSession.workspaceFolders || [];
+    const added = this.getWorkspaceFolders().filter(folder => 
+      !known.some(k => k.workspaceId === folder.workspaceId)
+    );
+
+    if (added.length > 0) {
+      this.currentSession.workspaceFolders = [...known, ...added];
+      this.debouncedSave();
+    }
+  }
+
   private generateSessionId(): string {
     return `session_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
   }
 
+  // Multi-root workspaces are identified by their .code-workspace file
   private getWorkspaceId(): string | undefined {
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-    return workspaceFolder?.uri.fsPath;
+    return vscode.workspace.workspaceFile?.fsPath ?? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
   }
 
   private getProjectName(): string | undefined {
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-    return workspaceFolder?.name;
+    return vscode.workspace.name;
+  }
+
+  private getWorkspaceFolders(): WorkspaceFolderInfo[] {
+    return (vscode.workspace.workspaceFolders || []).map(folder => ({
+      workspaceId: folder.uri.fsPath,
+      projectName: folder.name
+    }));
   }
 
-  public getEvents(startDate?: Date, endDate?: Date): ActivityEvent[] {
+  public async getEvents(startDate?: Date, endDate?: Date): Promise<ActivityEvent[]> {
+    await this.ensureLoaded(startDate ? startDate.getTime() : 0);
+
     let filteredEvents = this.events;
 
     if (startDate) {
@@ -192,379 +422,365 @@ export class DataManager {
   }
 
   public generateStats(days: number = 7): ActivityStats {
-    const cutoffDate = Date.now() - (days * 24 * 60 * 60 * 1000);
-    const recentEvents = this.events.filter(e => e.timestamp >= cutoffDate);
+    return this.getStatsEngine().calculate(
+      this.rollups.getDays(days),
+      // Streaks span the whole rollup history, not just the selected period
+      this.rollups.getDays(Math.max(days, this.rollups.getHistoryDays()))
+    );
+  }
 
-    return {
-      totalEvents: recentEvents.length,
-      filesSwitched: this.countEventsByType(recentEvents, ActivityType.FILE_SWITCH),
-      filesEdited: this.countEventsByType(recentEvents, ActivityType.FILE_EDIT),
-      filesCreated: this.countEventsByType(recentEvents, ActivityType.FILE_CREATE),
-      commandsExecuted: this.countEventsByType(recentEvents, ActivityType.COMMAND_EXECUTE),
-      activeTime: this.calculateActiveTime(recentEvents),
-      codingTime: this.calculateCodingTime(recentEvents),
-      debugTime: this.calculateDebugTime(recentEvents),
-      mostEditedFiles: this.getMostEditedFiles(recentEvents),
-      mostUsedLanguages: this.getMostUsedLanguages(recentEvents),
-      mostUsedCommands: this.getMostUsedCommands(recentEvents),
-      dailyActivity: this.getDailyActivity(recentEvents, days),
-      hourlyActivity: this.getHourlyActivity(recentEvents),
-      productivityScore: this.calculateProductivityScore(recentEvents),
-      streakData: this.calculateStreakData(days)
-    };
+  private getStatsEngine(): StatsEngine {
+    return new StatsEngine(this.getIdleTimeout());
   }
 
-  private countEventsByType(events: ActivityEvent[], type: ActivityType): number {
-    return events.filter(e => e.type === type).length;
+  private getIdleTimeout(): number {
+    const config = vscode.workspace.getConfiguration('devActivityTracker');
+    return config.get<number>('idleTimeoutMinutes', 5) * 60 * 1000;
   }
 
-  private calculateActiveTime(events: ActivityEvent[]): number {
-    let activeTime = 0;
-    let lastActiveTime = 0;
-    const maxIdleTime = 5 * 60 * 1000; // 5 minutes
+  private getRetentionCutoff(): number {
+    const config = vscode.workspace.getConfiguration('devActivityTracker');
+    const retentionDays = config.get<number>('dataRetentionDays', 30);
+    return Date.now() - (retentionDays * 24 * 60 * 60 * 1000);
+  }
 
-    const activeEventTypes = [
-      ActivityType.FILE_EDIT,
-      ActivityType.FILE_SWITCH,
-      ActivityType.COMMAND_EXECUTE,
-      ActivityType.FOCUS_GAINED
-    ];
+  // Rollups are small and outlive the raw events
+  private getRollupCutoff(): number {
+    const config = vscode.workspace.getConfiguration('devActivityTracker');
+    const rollupRetentionDays = config.get<number>('rollupRetentionDays', DEFAULT_ROLLUP_RETENTION_DAYS);
+    return Date.now() - (rollupRetentionDays * 24 * 60 * 60 * 1000);
+  }
 
-    for (const event of events.sort((a, b) => a.timestamp - b.timestamp)) {
-      if (activeEventTypes.includes(event.type)) {
-        if (lastActiveTime && (event.timestamp - lastActiveTime) < maxIdleTime) {
-          activeTime += event.timestamp - lastActiveTime;
-        }
-        lastActiveTime = event.timestamp;
-      }
+  private getArchiveCutoff(): number {
+    const config = vscode.workspace.getConfiguration('devActivityTracker');
+    const archiveRetentionDays = config.get<number>('archiveRetentionDays', 180);
+    return Date.now() - (archiveRetentionDays * 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * Tiered retention: raw events stay uncompressed for `dataRetentionDays`, are
+   * then kept compressed until `archiveRetentionDays`, while the daily rollups
+   * built from them last for `rollupRetentionDays`
+   */
+  private cleanOldData(): void {
+    const cutoffDate = this.getRetentionCutoff();
+    
+    const initialSessionsLength = this.sessions.length;
+    
+    this.events = this.events.filter(e => e.timestamp >= cutoffDate);
+    this.loadedFrom = Math.max(this.loadedFrom, cutoffDate);
+    this.rollups.prune(Math.min(this.getRollupCutoff(), cutoffDate));
+    this.sessions = this.sessions.filter(s => s.startTime >= cutoffDate);
+    this.archiveOldEvents(cutoffDate).catch(error => {
+      console.error('Failed to archive old activity events:', error);
+    });
+    // Events deleted from the archive can no longer be synced
+    const sessionIds = this.getAllSessions().map(s => s.id);
+    this.syncOutbox.prune(Math.min(cutoffDate, this.getArchiveCutoff()), sessionIds).catch(error => {
+      console.error('Failed to prune sync outbox:', error);
+    });
+    
+    if (this.sessions.length !== initialSessionsLength) {
+      this.saveData();
+    }
+  }
+
+  private async archiveOldEvents(cutoffDate: number): Promise<void> {
+    // Days leaving the uncompressed tier must have their rollup first
+    const oldestSegment = await this.journal.getOldestSegmentTime();
+    if (oldestSegment !== undefined && oldestSegment < cutoffDate) {
+      await this.completeRollups(oldestSegment, Date.parse(getDayKey(cutoffDate)) - 1);
     }
 
-    return activeTime;
+    await this.journal.archiveBefore(cutoffDate, Math.min(cutoffDate, this.getArchiveCutoff()));
   }
 
-  private calculateCodingTime(events: ActivityEvent[]): number {
-    const codingEvents = events.filter(e => 
-      [ActivityType.FILE_EDIT, ActivityType.FILE_SAVE].includes(e.type)
-    );
-    return this.calculateActiveTime(codingEvents);
+  private startPeriodicCleanup(): void {
+    // Clean old data every hour
+    setInterval(() => {
+      this.cleanOldData();
+    }, 60 * 60 * 1000);
   }
 
-  private calculateDebugTime(events: ActivityEvent[]): number {
-    let debugTime = 0;
-    let debugStart = 0;
+  /**
+   * Write the events and sessions selected by `options` to `uri`. Statistics are
+   * only included for unfiltered JSON exports, since they cover every event.
+   */
+  public async exportData(uri: vscode.Uri, options: ExportOptions): Promise<number> {
+    const exporter = new ActivityExporter(options);
+    const sessionsOnly = EXPORT_FORMATS[options.format].sessionsOnly;
+
+    let events = sessionsOnly ? [] : exporter.filterEvents(await this.journal.read(options.startTime, options.endTime));
+    let sessions = exporter.filterSessions(this.sessions);
+    if (options.redact) {
+      events = events.map(event => this.redactor.redactEvent(event, 'export'));
+      sessions = sessions.map(session => this.redactor.redactSession(session, 'export'));
+    }
 
-    for (const event of events.sort((a, b) => a.timestamp - b.timestamp)) {
-      if (event.type === ActivityType.DEBUG_START) {
-        debugStart = event.timestamp;
-      } else if (event.type === ActivityType.DEBUG_STOP && debugStart) {
-        debugTime += event.timestamp - debugStart;
-        debugStart = 0;
-      }
+    const timeRange = events.length > 0 ? this.getTimeRange(events) : undefined;
+    const filtered = !!(options.projects?.length || options.languages?.length || options.eventTypes?.length);
+    // Stats are built from the raw events (file paths, commands, project names),
+    // so a redacted export leaves them out rather than leak what was redacted
+    const includeStats = options.format === 'json' && !filtered && !options.redact && options.endTime === undefined;
+
+    let stats: ActivityStats | undefined;
+    if (includeStats) {
+      const statsFrom = options.startTime ?? timeRange?.startTime;
+      const statsDays = statsFrom !== undefined ? Math.max(1, Math.ceil((Date.now() - statsFrom) / DAY_MS)) : 30;
+      stats = this.generateStats(statsDays);
     }
 
-    return debugTime;
+    const exportData: ExportData = {
+      exportDate: new Date().toISOString(),
+      version: '1.0.0',
+      totalEvents: events.length,
+      timeRange: {
+        start: timeRange ? new Date(timeRange.startTime).toISOString() : '',
+        end: timeRange ? new Date(timeRange.endTime).toISOString() : ''
+      },
+      events,
+      sessions,
+      stats,
+      metadata: {
+        vscodeVersion: vscode.version,
+        extensionVersion: this.context.extension?.packageJSON.version || '1.0.0',
+        platform: process.platform
+      }
+    };
+
+    await vscode.workspace.fs.writeFile(uri, Buffer.from(exporter.format(exportData)));
+    return sessionsOnly ? sessions.length : events.length;
   }
 
-  private getMostEditedFiles(events: ActivityEvent[]): Array<{ file: string; edits: number; time: number }> {
-    const fileStats = new Map<string, { edits: number; time: number; lastEdit: number }>();
+  /**
+   * Projects and languages found in the given range, offered as export filters
+   */
+  public async getExportFilterChoices(startTime?: number, endTime?: number): Promise<{ projects: string[]; languages: string[] }> {
+    const events = await this.journal.read(startTime, endTime);
+    const projects = new Set<string>();
+    const languages = new Set<string>();
 
-    events
-      .filter(e => e.type === ActivityType.FILE_EDIT && this.isFileActivityData(e.data) && e.data.fileName)
-      .forEach(e => {
-        if (this.isFileActivityData(e.data) && e.data.fileName) {
-          const fileName = e.data.fileName;
-          const current = fileStats.get(fileName) || { edits: 0, time: 0, lastEdit: 0 };
-          
-          current.edits++;
-          if (current.lastEdit && (e.timestamp - current.lastEdit) < 300000) {
-            current.time += e.timestamp - current.lastEdit;
-          }
-          current.lastEdit = e.timestamp;
-          
-          fileStats.set(fileName, current);
-        }
-      });
+    events.forEach(event => {
+      if (event.projectName) projects.add(event.projectName);
+      if (this.isFileActivityData(event.data) && event.data.language) languages.add(event.data.language);
+    });
+    this.sessions.forEach(session => session.folderActivity?.forEach(folder => projects.add(folder.projectName)));
 
-    return Array.from(fileStats.entries())
-      .map(([file, stats]) => ({ file, edits: stats.edits, time: stats.time }))
-      .sort((a, b) => b.edits - a.edits)
-      .slice(0, 10);
+    return { projects: Array.from(projects).sort(), languages: Array.from(languages).sort() };
   }
 
-  private getMostUsedLanguages(events: ActivityEvent[]): Array<{ language: string; time: number; files: number }> {
-    const languageStats = new Map<string, { time: number; files: Set<string>; lastSwitch: number }>();
-
-    events
-      .filter(e => e.type === ActivityType.FILE_SWITCH && this.isFileActivityData(e.data) && e.data.language)
-      .forEach(e => {
-        if (this.isFileActivityData(e.data) && e.data.language) {
-          const lang = e.data.language;
-          const current = languageStats.get(lang) || { time: 0, files: new Set(), lastSwitch: 0 };
-          
-          if (current.lastSwitch && (e.timestamp - current.lastSwitch) < 300000) {
-            current.time += e.timestamp - current.lastSwitch;
-          }
-          
-          if (e.data.fileName) {
-            current.files.add(e.data.fileName);
-          }
-          
-          current.lastSwitch = e.timestamp;
-          languageStats.set(lang, current);
-        }
-      });
+  public readImport(uri: vscode.Uri): Promise<ImportedActivity> {
+    return new ActivityImporter(this.getIdleTimeout()).read(uri);
+  }
 
-    return Array.from(languageStats.entries())
-      .map(([language, stats]) => ({ 
-        language, 
-        time: stats.time, 
-        files: stats.files.size 
-      }))
-      .sort((a, b) => b.time - a.time)
-      .slice(0, 5);
+  /**
+   * What importing would add, without writing anything
+   */
+  public async previewImport(imported: ImportedActivity): Promise<ImportSummary> {
+    const { events, sessions } = await this.prepareImport(imported);
+    return this.summarizeImport(imported, events, sessions);
   }
 
-  private getMostUsedCommands(events: ActivityEvent[]): Array<{ command: string; count: number }> {
-    const commandCounts = new Map<string, number>();
+  /**
+   * Merge imported events into the store, skipping those already recorded, and
+   * rebuild the rollups and sessions of the days they fall on
+   */
+  public async importData(imported: ImportedActivity, redact = true): Promise<ImportSummary> {
+    const { events, sessions } = await this.prepareImport(imported, redact);
+
+    if (events.length > 0) {
+      await this.journal.writeEvents(events);
+      await this.rebuildImportedDays(events);
+      if (this.isSyncEnabled()) {
+        this.syncOutbox.add(events.filter(e => !e.localOnly));
+      }
+    }
 
-    events
-      .filter(e => e.type === ActivityType.COMMAND_EXECUTE && this.isCommandActivityData(e.data))
-      .forEach(e => {
-        if (this.isCommandActivityData(e.data)) {
-          const commandId = e.data.commandId;
-          commandCounts.set(commandId, (commandCounts.get(commandId) || 0) + 1);
-        }
-      });
+    if (sessions.length > 0) {
+      this.sessions = this.mergeSessions(sessions, this.sessions);
+      await this.saveData();
+    }
 
-    return Array.from(commandCounts.entries())
-      .map(([command, count]) => ({ command, count }))
-      .sort((a, b) => b.count - a.count)
-      .slice(0, 10);
+    // Imported history may already be past the retention period
+    this.cleanOldData();
+    return this.summarizeImport(imported, events, sessions);
   }
 
-  private getDailyActivity(events: ActivityEvent[], days: number): Array<{ date: string; events: number; activeTime: number }> {
-    const dailyActivity = new Map<string, { events: number; activeTime: number }>();
-
-    // Initialize all days
-    for (let i = 0; i < days; i++) {
-      const date = new Date();
-      date.setDate(date.getDate() - i);
-      const dateKey = date.toISOString().split('T')[0];
-      dailyActivity.set(dateKey, { events: 0, activeTime: 0 });
+  private async prepareImport(imported: ImportedActivity, redact = true): Promise<{ events: ActivityEvent[]; sessions: SessionData[] }> {
+    const unique = new Map(imported.events.map(event => [event.id, event]));
+    if (unique.size === 0) {
+      return { events: [], sessions: [] };
     }
 
-    // Group events by day
-    const eventsByDay = new Map<string, ActivityEvent[]>();
-    events.forEach(event => {
-      const date = new Date(event.timestamp);
-      const dateKey = date.toISOString().split('T')[0];
-      if (!eventsByDay.has(dateKey)) {
-        eventsByDay.set(dateKey, []);
-      }
-      eventsByDay.get(dateKey)!.push(event);
+    const { startTime, endTime } = this.getTimeRange(Array.from(unique.values()));
+    const stored = await this.journal.read(startTime, endTime);
+    const known = new Set([...stored, ...this.events].map(e => e.id));
+
+    // Exclusion and sync rules apply to imported history as they do to live tracking
+    const events = Array.from(unique.values())
+      .filter(event => !known.has(event.id))
+      .filter(event => !this.exclusionRules.isPathExcluded((event.data as BaseActivityData)?.filePath, event.workspaceId))
+      .map(event => ({ ...event, localOnly: event.localOnly || this.exclusionRules.isSyncDisabled(event.workspaceId) || undefined }))
+      .map(event => redact ? this.redactor.redactEvent(event, 'local') : event)
+      .sort((a, b) => a.timestamp - b.timestamp);
+    const sessions = imported.sessions
+      .filter(session => !this.exclusionRules.isPathExcluded(undefined, session.workspaceId));
+
+    // Files exported by older versions stamp events with IDs their sessions don't have
+    const sessionIds = getSessionReplacements(events, imported.sessions);
+    const matched = events.map(event => {
+      const sessionId = sessionIds.get(event.sessionId);
+      return sessionId ? { ...event, sessionId } : event;
     });
 
-    // Calculate stats for each day
-    eventsByDay.forEach((dayEvents, dateKey) => {
-      if (dailyActivity.has(dateKey)) {
-        dailyActivity.set(dateKey, {
-          events: dayEvents.length,
-          activeTime: this.calculateActiveTime(dayEvents)
-        });
-      }
+    return { events: matched, sessions: this.getImportedSessions(sessions, matched, redact) };
+  }
+
+  /**
+   * Sessions from the file that aren't stored yet, plus sessions rebuilt from
+   * the events of any others (CSV and WakaTime files carry no sessions)
+   */
+  private getImportedSessions(sessions: SessionData[], events: ActivityEvent[], redact: boolean): SessionData[] {
+    const knownIds = new Set(this.getAllSessions().map(s => s.id));
+    const result = sessions
+      .filter(session => !knownIds.has(session.id))
+      .map(session => redact ? this.redactor.redactSession(session, 'local') : session);
+    result.forEach(session => knownIds.add(session.id));
+
+    const bySession = new Map<string, ActivityEvent[]>();
+    events
+      .filter(event => !knownIds.has(event.sessionId))
+      .forEach(event => bySession.set(event.sessionId, [...(bySession.get(event.sessionId) || []), event]));
+
+    bySession.forEach((sessionEvents, id) => {
+      const withWorkspace = sessionEvents.find(e => e.workspaceId || e.projectName);
+      result.push({
+        id,
+        startTime: sessionEvents[0].timestamp,
+        endTime: sessionEvents[sessionEvents.length - 1].timestamp,
+        workspaceId: withWorkspace?.workspaceId,
+        projectName: withWorkspace?.projectName,
+        totalEvents: sessionEvents.length,
+        activeTime: this.getStatsEngine().calculateActiveTime(sessionEvents),
+        folderActivity: this.getStatsEngine().getProjectActivity(sessionEvents)
+      });
     });
 
-    return Array.from(dailyActivity.entries())
-      .map(([date, stats]) => ({ date, ...stats }))
-      .sort((a, b) => a.date.localeCompare(b.date));
+    return result;
   }
 
-  private getHourlyActivity(events: ActivityEvent[]): Array<{ hour: number; events: number; activeTime: number }> {
-    const hourlyActivity = new Map<number, ActivityEvent[]>();
+  private async rebuildImportedDays(events: ActivityEvent[]): Promise<void> {
+    const importFrom = Date.parse(getDayKey(events[0].timestamp));
 
-    // Initialize all hours
-    for (let i = 0; i < 24; i++) {
-      hourlyActivity.set(i, []);
+    // Days before the loaded range are rebuilt from disk, up to the end of the day it starts in
+    if (importFrom < this.loadedFrom) {
+      const importUntil = Date.parse(getDayKey(events[events.length - 1].timestamp)) + DAY_MS - 1;
+      const backfillUntil = Math.min(importUntil, Date.parse(getDayKey(this.loadedFrom)) + DAY_MS - 1);
+      this.rollups.rebuild(await this.journal.read(importFrom, backfillUntil), importFrom, backfillUntil);
     }
 
-    // Group events by hour
-    events.forEach(event => {
-      const hour = new Date(event.timestamp).getHours();
-      hourlyActivity.get(hour)!.push(event);
-    });
+    this.events = this.mergeEvents(events.filter(e => e.timestamp >= this.loadedFrom), this.events);
+    this.rollups.rebuild(this.events, this.loadedFrom, Date.now(), true);
+  }
 
-    return Array.from(hourlyActivity.entries())
-      .map(([hour, hourEvents]) => ({
-        hour,
-        events: hourEvents.length,
-        activeTime: this.calculateActiveTime(hourEvents)
-      }));
-  }
-
-  private calculateProductivityScore(events: ActivityEvent[]): number {
-    if (events.length === 0) return 0;
-
-    const weights: Record<ActivityType, number> = {
-      [ActivityType.FILE_EDIT]: 3,
-      [ActivityType.FILE_SAVE]: 2,
-      [ActivityType.FILE_CREATE]: 4,
-      [ActivityType.DEBUG_START]: 2,
-      [ActivityType.GIT_COMMIT]: 5,
-      [ActivityType.COMMAND_EXECUTE]: 1,
-      [ActivityType.FILE_OPEN]: 1,
-      [ActivityType.FILE_CLOSE]: 0,
-      [ActivityType.FILE_SWITCH]: 1,
-      [ActivityType.FILE_DELETE]: 1,
-      [ActivityType.FILE_RENAME]: 1,
-      [ActivityType.DEBUG_STOP]: 0,
-      [ActivityType.DEBUG_BREAKPOINT]: 1,
-      [ActivityType.TERMINAL_OPEN]: 1,
-      [ActivityType.TERMINAL_CLOSE]: 0,
-      [ActivityType.EXTENSION_INSTALL]: 1,
-      [ActivityType.EXTENSION_UNINSTALL]: 0,
-      [ActivityType.WORKSPACE_OPEN]: 0,
-      [ActivityType.WORKSPACE_CLOSE]: 0,
-      [ActivityType.FOCUS_GAINED]: 0,
-      [ActivityType.FOCUS_LOST]: 0,
-      [ActivityType.TASK_START]: 2,
-      [ActivityType.TASK_END]: 1,
-      [ActivityType.GIT_PUSH]: 3,
-      [ActivityType.GIT_PULL]: 2,
-      [ActivityType.SEARCH_PERFORMED]: 1
+  private summarizeImport(imported: ImportedActivity, events: ActivityEvent[], sessions: SessionData[]): ImportSummary {
+    return {
+      newEvents: events.length,
+      duplicates: imported.events.length - events.length,
+      newSessions: sessions.length,
+      ...(imported.events.length > 0 ? this.getTimeRange(imported.events) : {})
     };
+  }
 
-    let score = 0;
-    events.forEach(event => {
-      const weight = weights[event.type] || 0;
-      score += weight;
-    });
-
-    // Normalize score (0-100)
-    const maxPossibleScore = events.length * 5; // Max weight is 5
-    return Math.min(100, Math.round((score / maxPossibleScore) * 100));
+  // Imports can hold far more events than Math.min(...) accepts as arguments
+  private getTimeRange(events: ActivityEvent[]): { startTime: number; endTime: number } {
+    return events.reduce(
+      (range, e) => ({ startTime: Math.min(range.startTime, e.timestamp), endTime: Math.max(range.endTime, e.timestamp) }),
+      { startTime: Infinity, endTime: -Infinity }
+    );
   }
 
-  private calculateStreakData(days: number): { current: number; longest: number } {
-    const dailyActivity = this.getDailyActivity(this.events, days);
-    
-    let currentStreak = 0;
-    let longestStreak = 0;
-    let tempStreak = 0;
-
-    // Calculate from most recent day backwards
-    for (let i = dailyActivity.length - 1; i >= 0; i--) {
-      if (dailyActivity[i].events > 0) {
-        tempStreak++;
-        if (i === dailyActivity.length - 1) {
-          currentStreak = tempStreak;
-        }
-      } else {
-        if (tempStreak > longestStreak) {
-          longestStreak = tempStreak;
-        }
-        tempStreak = 0;
-        if (i === dailyActivity.length - 1) {
-          currentStreak = 0;
-        }
-      }
-    }
+  public async clearData(): Promise<void> {
+    this.events = [];
+    this.loadedFrom = Date.now();
+    this.sessions = [];
+    this.currentSession = null;
+    this.startNewSession();
 
-    return {
-      current: currentStreak,
-      longest: Math.max(longestStreak, tempStreak)
-    };
+    try {
+      await this.journal.clear();
+      await this.syncOutbox.clear();
+    } catch (error) {
+      console.error('Failed to clear activity events:', error);
+    }
+    await this.rollups.clear();
+    await this.saveData(true);
   }
 
-  private cleanOldData(): void {
-    const config = vscode.workspace.getConfiguration('devActivityTracker');
-    const retentionDays = config.get<number>('dataRetentionDays', 30);
-    const cutoffDate = Date.now() - (retentionDays * 24 * 60 * 60 * 1000);
-    
-    const initialEventsLength = this.events.length;
-    const initialSessionsLength = this.sessions.length;
-    
-    this.events = this.events.filter(e => e.timestamp >= cutoffDate);
-    this.sessions = this.sessions.filter(s => s.startTime >= cutoffDate);
-    
-    if (this.events.length !== initialEventsLength || 
-        this.sessions.length !== initialSessionsLength) {
-      this.saveData();
+  /**
+   * Rewrite every stored file with the current encryption setting and key,
+   * after encryption was switched on or off or the key was rotated
+   */
+  public async rewriteStorage(): Promise<void> {
+    if (this.cipher.isEnabled()) {
+      await this.cipher.ensureKey();
+    }
+
+    // Journals are folded into segments first, as only those are rewritten
+    await this.journal.flush();
+    await this.journal.compact();
+    await this.journal.rewriteEvents(event => event);
+    await this.saveData();
+    await this.rollups.save();
+    if (this.cipher.isEnabled()) {
+      await deleteStorageCopies(this.context.globalStorageUri);
     }
   }
 
-  private startPeriodicCleanup(): void {
-    // Clean old data every hour
-    setInterval(() => {
-      this.cleanOldData();
-    }, 60 * 60 * 1000);
+  /**
+   * IDs of the encryption keys stored events, sessions and rollups still use
+   */
+  public async getKeyIdsInUse(): Promise<Set<string>> {
+    const keyIds = await this.journal.getKeyIdsInUse();
+    const sessionsKeyId = await vscode.workspace.fs.readFile(this.sessionsUri)
+      .then(content => this.cipher.getKeyId(Buffer.from(content).toString('utf8')), () => undefined);
+    [sessionsKeyId, await this.rollups.getKeyId()].forEach(keyId => keyId && keyIds.add(keyId));
+    return keyIds;
   }
 
-  public async exportData(uri: vscode.Uri, format: 'json' | 'csv' = 'json'): Promise<void> {
-    const stats = this.generateStats(30);
-    
-    const exportData: ExportData = {
-      exportDate: new Date().toISOString(),
-      version: '1.0.0',
-      totalEvents: this.events.length,
-      timeRange: {
-        start: this.events.length > 0 ? new Date(Math.min(...this.events.map(e => e.timestamp))).toISOString() : '',
-        end: this.events.length > 0 ? new Date(Math.max(...this.events.map(e => e.timestamp))).toISOString() : ''
-      },
-      events: this.events,
-      sessions: this.sessions,
-      stats,
-      metadata: {
-        vscodeVersion: vscode.version,
-        extensionVersion: this.context.extension?.packageJSON.version || '1.0.0',
-        platform: process.platform
-      }
+  /**
+   * Everything needed to restore the current history: all stored events
+   * (including the archive), sessions and rollups
+   */
+  public async createSnapshot(): Promise<BackupSnapshot> {
+    await this.saveData();
+    return {
+      version: STORAGE_VERSION,
+      createdAt: Date.now(),
+      events: await this.journal.read(),
+      sessions: this.getAllSessions(),
+      rollups: this.rollups.getAll()
     };
-
-    if (format === 'json') {
-      await vscode.workspace.fs.writeFile(
-        uri,
-        Buffer.from(JSON.stringify(exportData, null, 2))
-      );
-    } else {
-      const csvContent = this.convertToCSV(exportData);
-      await vscode.workspace.fs.writeFile(
-        uri,
-        Buffer.from(csvContent)
-      );
-    }
-  }
-
-  private convertToCSV(data: ExportData): string {
-    const headers = ['timestamp', 'type', 'fileName', 'language', 'sessionId', 'workspaceId'];
-    const rows = data.events.map(event => {
-      // Safely extract fileName and language with type guards
-      const fileName = this.isFileActivityData(event.data) ? event.data.fileName || '' : '';
-      const language = this.isFileActivityData(event.data) ? event.data.language || '' : '';
-      
-      return [
-        new Date(event.timestamp).toISOString(),
-        event.type,
-        fileName,
-        language,
-        event.sessionId,
-        event.workspaceId || ''
-      ];
-    });
-
-    return [headers.join(','), ...rows.map(row => row.join(','))].join('\n');
   }
 
-  public clearData(): void {
-    this.events = [];
-    this.sessions = [];
-    this.currentSession = null;
-    this.startNewSession();
-    this.saveData();
+  /**
+   * Bring back a backup. With `replace` the current data is cleared first,
+   * otherwise the backup is merged in the way an import is.
+   */
+  public async restoreSnapshot(snapshot: BackupSnapshot, replace: boolean): Promise<ImportSummary> {
+    if (replace) {
+      await this.clearData();
+    }
+
+    // Rollups outlive raw events, so older days may only be in the backup's rollups
+    this.rollups.merge(snapshot.rollups || []);
+    // Stored events were already redacted by the local policy when recorded
+    return this.importData({ format: 'json', events: snapshot.events || [], sessions: snapshot.sessions || [], skipped: 0 }, false);
   }
 
   public endCurrentSession(): void {
     if (this.currentSession) {
-      this.currentSession.endTime = Date.now();
+      this.closeSession(this.currentSession);
       this.sessions.push(this.currentSession);
       this.currentSession = null;
       this.saveData();
@@ -572,58 +788,306 @@ export class DataManager {
   }
 
   private setupPeriodicSync(): void {
-    // Sync every 5 minutes
-    const syncInterval = 5 * 60 * 1000;
-    
+    // Failed attempts are retried sooner or later than this, following the backoff
     this.syncTimer = setInterval(() => {
-      const config = vscode.workspace.getConfiguration('devActivityTracker');
-      const syncEnabled = config.get<boolean>('enableSync', false);
-      
-      if (syncEnabled) {
-        this.syncDataWithAPI();
+      if (this.isSyncEnabled()) {
+        this.syncInBackground();
+      }
+    }, SYNC_INTERVAL);
+  }
+
+  /**
+   * Sync without the sync command's report, but tell the user about events
+   * that had to be dropped, as they are missing from CodeFlow for good
+   */
+  private async syncInBackground(): Promise<void> {
+    try {
+      const result = await this.syncDataWithAPI();
+      if (result.orphaned) {
+        vscode.window.showWarningMessage(
+          `${result.orphaned} activity events were not synced because CodeFlow never received the session they belong to.`
+        );
+      }
+    } catch (error) {
+      console.error('Failed to sync activity data:', error);
+    }
+  }
+
+  private isSyncEnabled(): boolean {
+    const config = vscode.workspace.getConfiguration('devActivityTracker');
+    return config.get<boolean>('enableSync', false);
+  }
+
+  /**
+   * Add events recorded since the last complete sync to the outbox; those the
+   * server already has are acknowledged as existing
+   */
+  private async seedSyncOutbox(): Promise<void> {
+    const lastSyncTime = this.context.globalState.get<number>('lastSyncTime', 0);
+    const events = (await this.journal.read(lastSyncTime + 1)).filter(e => !e.localOnly);
+    await this.syncOutbox.seed(events);
+  }
+
+  /**
+   * Send the events in the outbox and sessions that changed since the server
+   * last acknowledged them, in batches of at most `syncMaxPayloadKB`. Events
+   * leave the outbox only once the response reports them stored. After a
+   * failure further attempts back off, unless `force`d by the sync command.
+   */
+  public async syncDataWithAPI(force = false): Promise<SyncResult> {
+    if (!this.isSyncEnabled()) {
+      return { success: false, message: 'Sync not enabled' };
+    }
+    if (this.syncInProgress) {
+      return { success: false, message: 'Sync already in progress' };
+    }
+
+    this.syncInProgress = true;
+    try {
+      // The outbox is shared by all windows, so only one of them syncs at a time
+      return await withFileLock(this.syncLockPath, () => this.sendPendingData(force), { acquireTimeout: 0 });
+    } catch (error) {
+      if (error instanceof LockTimeoutError) {
+        return { success: false, message: 'Sync already in progress' };
       }
-    }, syncInterval);
+      throw error;
+    } finally {
+      this.syncInProgress = false;
+    }
   }
 
-  public async syncDataWithAPI(): Promise<any> {
+  private async sendPendingData(force: boolean): Promise<SyncResult> {
+    const nextAttemptAt = await this.syncOutbox.getNextAttemptTime();
+    if (!force && nextAttemptAt > Date.now()) {
+      return { success: false, message: 'Waiting to retry', nextAttemptAt };
+    }
+
+    const startedAt = Date.now();
     try {
-      const config = vscode.workspace.getConfiguration('devActivityTracker');
-      const syncEnabled = config.get<boolean>('enableSync', false);
-      
-      if (!syncEnabled) {
-        return { success: false, message: 'Sync not enabled' };
+      if (!(await this.syncOutbox.isSeeded())) {
+        await this.seedSyncOutbox();
       }
-      
-      // Get events and sessions since last sync
-      const lastSyncTime = this.context.globalState.get<number>('lastSyncTime', 0);
-      const eventsToSync = this.events.filter(e => e.timestamp > lastSyncTime);
-      const sessionsToSync = this.sessions.filter(s => s.startTime > lastSyncTime);
-      
-      // If no new data to sync, skip
-      if (eventsToSync.length === 0 && sessionsToSync.length === 0) {
-        return { success: true, message: 'No new data to sync' };
+      // Picks up the sessions other windows have stored
+      await this.saveData();
+      const sessions = await this.getSessionsToSync();
+      const { events, withoutSession } = await this.readPendingEvents();
+
+      let synced = 0;
+      let failed = withoutSession.length;
+      let rejected = 0;
+      // Sessions go out before their events, so this is complete by the time they follow
+      const rejectedSessions = new Set<string>();
+      for (const batch of this.createSyncBatches(events, sessions)) {
+        // Apply the sync privacy policy on the way out
+        const result = await this.apiClient.syncActivityData(
+          batch.events.map(e => this.redactor.redactEvent(e, 'sync')),
+          batch.sessions.map(s => this.redactor.redactSession(s, 'sync'))
+        );
+        if (!result?.success) {
+          throw new Error(result?.error || 'Sync request was rejected');
+        }
+
+        // Items the server will never accept leave the outbox as well, or they would be resent forever
+        const sessionResults = this.getSyncResults(result.sessionStatus, batch.sessions);
+        sessionResults.rejected.forEach(id => rejectedSessions.add(id));
+        const eventResults = this.getSyncResults(result.status, batch.events, rejectedSessions);
+        const settledSessions = new Set([...sessionResults.stored, ...sessionResults.rejected]);
+        await this.syncOutbox.acknowledge(
+          [...eventResults.stored, ...eventResults.rejected],
+          new Map(batch.sessions.filter(s => settledSessions.has(s.id)).map(s => [s.id, this.getSessionVersion(s)]))
+        );
+
+        synced += eventResults.stored.length;
+        rejected += eventResults.rejected.length;
+        failed += batch.events.length - eventResults.stored.length - eventResults.rejected.length;
       }
-      
-      // Sync with API
-      const result = await this.apiClient.syncActivityData(eventsToSync, sessionsToSync);
-      
-      // Update last sync time on success
-      if (result.success) {
-        this.context.globalState.update('lastSyncTime', Date.now());
+
+      const orphaned = await this.giveUpOrphanedEvents(withoutSession, startedAt);
+      failed -= orphaned;
+
+      await this.syncOutbox.recordSuccess();
+      // Everything recorded before this sync started is on the server now
+      if (failed === 0) {
+        this.context.globalState.update('lastSyncTime', startedAt);
       }
-      
-      return result;
+
+      return {
+        success: true,
+        synced,
+        failed,
+        rejected,
+        orphaned,
+        message: synced === 0 && failed === 0 && rejected === 0 && orphaned === 0 ? 'No new data to sync' : undefined
+      };
     } catch (error) {
       console.error('Failed to sync data with API:', error);
-      return { 
-        success: false, 
-        error: error instanceof Error ? error.message : 'Unknown error' 
+      const retryAt = await this.syncOutbox.recordFailure().catch(() => Date.now() + SYNC_INTERVAL);
+      this.scheduleRetry(retryAt);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        nextAttemptAt: retryAt
       };
     }
   }
 
+  private scheduleRetry(retryAt: number): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+    }
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      if (this.isSyncEnabled()) {
+        this.syncInBackground();
+      }
+    }, Math.max(0, retryAt - Date.now()));
+  }
+
+  /**
+   * Events listed in the outbox, oldest first. Those deleted locally in the
+   * meantime are dropped from it. Events whose session isn't stored are held
+   * back, as the server can only store events of a session it has.
+   */
+  private async readPendingEvents(): Promise<{ events: ActivityEvent[]; withoutSession: ActivityEvent[] }> {
+    const pending = await this.syncOutbox.getPending();
+    if (pending.length === 0) return { events: [], withoutSession: [] };
+
+    const pendingIds = new Set(pending.map(entry => entry.id));
+    const events = (await this.journal.read(pending[0].timestamp, pending[pending.length - 1].timestamp))
+      .filter(e => pendingIds.has(e.id) && !e.localOnly);
+
+    const found = new Set(events.map(e => e.id));
+    const missing = pending.filter(entry => !found.has(entry.id)).map(entry => entry.id);
+    if (missing.length > 0) {
+      await this.syncOutbox.acknowledge(missing);
+    }
+
+    const sessionIds = new Set(this.getAllSessions().map(s => s.id));
+    return {
+      events: events.filter(e => sessionIds.has(e.sessionId)),
+      withoutSession: events.filter(e => !sessionIds.has(e.sessionId))
+    };
+  }
+
+  /**
+   * Drop events held back for lack of a stored session once they have waited
+   * through enough syncs, or right away once they are too old for their
+   * window to still store it. Returns how many were dropped.
+   */
+  private async giveUpOrphanedEvents(withoutSession: ActivityEvent[], now: number): Promise<number> {
+    const lost = withoutSession.filter(e => now - e.timestamp > MISSING_SESSION_GRACE).map(e => e.id);
+    const lostIds = new Set(lost);
+    const exhausted = await this.syncOutbox.recordMissingSession(
+      withoutSession.filter(e => !lostIds.has(e.id)).map(e => e.id)
+    );
+
+    const orphaned = [...lost, ...exhausted];
+    if (orphaned.length > 0) {
+      console.error(`Sync dropped ${orphaned.length} events whose session CodeFlow never received`);
+      await this.syncOutbox.acknowledge(orphaned);
+    }
+    return orphaned.length;
+  }
+
+  private async getSessionsToSync(): Promise<SessionData[]> {
+    const acknowledged = await this.syncOutbox.getAcknowledgedSessions();
+    // Sessions still in progress are sent as well and updated by later syncs
+    return this.getAllSessions()
+      .filter(session => acknowledged[session.id] !== this.getSessionVersion(session))
+      .map(session => this.withoutSyncDisabledFolders(session));
+  }
+
+  /**
+   * IDs of the items the server stored and of those it rejected for good;
+   * older servers only report failures by failing the whole request. Events
+   * of a session the server rejected can't be stored later either.
+   */
+  private getSyncResults(
+    statuses: SyncItemStatus[] | undefined,
+    items: Array<{ id: string; sessionId?: string }>,
+    rejectedSessions: Set<string> = new Set()
+  ): { stored: string[]; rejected: string[] } {
+    if (!statuses) {
+      return { stored: items.map(item => item.id), rejected: [] };
+    }
+
+    const sessionIds = new Map(items.map(item => [item.id, item.sessionId]));
+    const stored: string[] = [];
+    const rejected: string[] = [];
+    statuses.forEach(item => {
+      const sessionId = sessionIds.get(item.id);
+      if (item.status !== 'error') {
+        stored.push(item.id);
+      } else if (item.code === 'unknown_session' && sessionId && rejectedSessions.has(sessionId)) {
+        console.error(`Sync rejected ${item.id}: its session ${sessionId} was rejected`);
+        rejected.push(item.id);
+      } else if (item.code) {
+        console.error(`Sync rejected ${item.id} (${item.code}): ${item.error}`);
+        rejected.push(item.id);
+      }
+    });
+    return { stored, rejected };
+  }
+
+  private getSessionVersion(session: SessionData): number {
+    return session.endTime ?? session.startTime;
+  }
+
+  private createSyncBatches(events: ActivityEvent[], sessions: SessionData[]): Array<{ events: ActivityEvent[]; sessions: SessionData[] }> {
+    const config = vscode.workspace.getConfiguration('devActivityTracker');
+    const maxBytes = config.get<number>('syncMaxPayloadKB', 512) * 1024;
+    const batches: Array<{ events: ActivityEvent[]; sessions: SessionData[] }> = [];
+    let batch: { events: ActivityEvent[]; sessions: SessionData[] } = { events: [], sessions: [] };
+    let size = 0;
+
+    // A single item larger than the limit still goes out, in a batch of its own
+    const fits = (item: unknown) => {
+      const itemSize = Buffer.byteLength(JSON.stringify(item)) + 1;
+      if (size + itemSize > maxBytes && (batch.events.length > 0 || batch.sessions.length > 0)) {
+        batches.push(batch);
+        batch = { events: [], sessions: [] };
+        size = 0;
+      }
+      size += itemSize;
+    };
+
+    sessions.forEach(session => {
+      fits(session);
+      batch.sessions.push(session);
+    });
+    events.forEach(event => {
+      fits(event);
+      batch.events.push(event);
+    });
+
+    if (batch.events.length > 0 || batch.sessions.length > 0) {
+      batches.push(batch);
+    }
+    return batches;
+  }
+
+  private withoutSyncDisabledFolders(session: SessionData): SessionData {
+    const isSyncDisabled = (workspaceId?: string) => this.exclusionRules.isSyncDisabled(workspaceId);
+    const result: SessionData = {
+      ...session,
+      workspaceFolders: session.workspaceFolders?.filter(f => !isSyncDisabled(f.workspaceId)),
+      folderActivity: session.folderActivity?.filter(f => !isSyncDisabled(f.workspaceId))
+    };
+
+    if (isSyncDisabled(session.workspaceId)) {
+      result.workspaceId = undefined;
+      result.projectName = undefined;
+    }
+    return result;
+  }
+
   public dispose(): void {
+    this.workspaceListener.dispose();
+    this.windowStateListener.dispose();
+    this.configListener.dispose();
     this.endCurrentSession();
+    this.journal.dispose();
+    this.rollups.dispose();
     if (this.saveTimer) {
       clearTimeout(this.saveTimer);
     }
@@ -631,6 +1095,11 @@ export class DataManager {
       clearInterval(this.syncTimer);
       this.syncTimer = null;
     }
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.syncOutbox.dispose();
     this.saveData();
   }
 }
\ No newline at end of file
@@ -0,0 +1,159 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ActivityType, DebugActivityData } from './types';
+
+interface DebugSessionStats {
+  startTime: number;
+  stepCount: number;
+  exceptionCount: number;
+  breakpointHits: number;
+}
+
+type DebugEventCallback = (type: ActivityType, data: DebugActivityData, resource?: vscode.Uri) => void;
+
+const STEP_COMMANDS = ['next', 'stepIn', 'stepOut', 'stepBack', 'reverseContinue', 'goto'];
+
+/**
+ * Follows debug sessions through a DebugAdapterTracker and reports session
+ * lifetimes, breakpoint changes/hits, stepping and exceptions.
+ */
+export class DebugTracker implements vscode.Disposable {
+  private disposables: vscode.Disposable[] = [];
+  private sessions = new Map<string, DebugSessionStats>();
+
+  constructor(private onDebugEvent: DebugEventCallback) {
+    this.disposables.push(
+      vscode.debug.onDidStartDebugSession(this.onSessionStart.bind(this)),
+      vscode.debug.onDidTerminateDebugSession(this.onSessionStop.bind(this)),
+      vscode.debug.onDidChangeBreakpoints(this.onBreakpointsChange.bind(this)),
+      vscode.debug.registerDebugAdapterTrackerFactory('*', {
+        createDebugAdapterTracker: session => this.createTracker(session)
+      })
+    );
+  }
+
+  private getSessionStats(session: vscode.DebugSession): DebugSessionStats {
+    let stats = this.sessions.get(session.id);
+    if (!stats) {
+      stats = { startTime: Date.now(), stepCount: 0, exceptionCount: 0, breakpointHits: 0 };
+      this.sessions.set(session.id, stats);
+    }
+    return stats;
+  }
+
+  private getSessionData(session: vscode.DebugSession): DebugActivityData {
+    return {
+      debugType: session.type,
+      configurationName: session.name,
+      debugSessionId: session.id,
+      parentSessionId: session.parentSession?.id,
+      breakpointCount: vscode.debug.breakpoints.length
+    };
+  }
+
+  private createTracker(session: vscode.DebugSession): vscode.DebugAdapterTracker {
+    return {
+      onWillReceiveMessage: (message: any) => {
+        if (message?.type === 'request' && STEP_COMMANDS.includes(message.command)) {
+          this.getSessionStats(session).stepCount++;
+        }
+      },
+      onDidSendMessage: (message: any) => {
+        if (message?.type !== 'event' || message.event !== 'stopped') {
+          return;
+        }
+        this.onStopped(session, message.body?.reason, message.body?.description);
+      }
+    };
+  }
+
+  private onStopped(session: vscode.DebugSession, reason: string | undefined, description?: string): void {
+    const stats = this.getSessionStats(session);
+
+    if (reason === 'exception') {
+      stats.exceptionCount++;
+      return;
+    }
+
+    if (reason === 'breakpoint' || reason === 'function breakpoint' || reason === 'data breakpoint') {
+      stats.breakpointHits++;
+      this.onDebugEvent(ActivityType.DEBUG_BREAKPOINT, {
+        ...this.getSessionData(session),
+        action: 'hit',
+        breakpointKind: reason,
+        description
+      }, session.workspaceFolder?.uri);
+    }
+  }
+
+  private onSessionStart(session: vscode.DebugSession): void {
+    const stats = this.getSessionStats(session);
+    stats.startTime = Date.now();
+
+    this.onDebugEvent(ActivityType.DEBUG_START, this.getSessionData(session), session.workspaceFolder?.uri);
+  }
+
+  private onSessionStop(session: vscode.DebugSession): void {
+    const stats = this.getSessionStats(session);
+    this.sessions.delete(session.id);
+
+    this.onDebugEvent(ActivityType.DEBUG_STOP, {
+      ...this.getSessionData(session),
+      duration: Date.now() - stats.startTime,
+      stepCount: stats.stepCount,
+      exceptionCount: stats.exceptionCount,
+      breakpointHits: stats.breakpointHits
+    }, session.workspaceFolder?.uri);
+  }
+
+  private onBreakpointsChange(event: vscode.BreakpointsChangeEvent): void {
+    const breakpointCount = vscode.debug.breakpoints.length;
+
+    event.added.forEach(breakpoint => {
+      this.onDebugEvent(ActivityType.DEBUG_BREAKPOINT, {
+        ...this.describeBreakpoint(breakpoint),
+        action: 'add',
+        breakpointCount
+      }, this.getBreakpointUri(breakpoint));
+    });
+
+    event.removed.forEach(breakpoint => {
+      this.onDebugEvent(ActivityType.DEBUG_BREAKPOINT, {
+        ...this.describeBreakpoint(breakpoint),
+        action: 'remove',
+        breakpointCount
+      }, this.getBreakpointUri(breakpoint));
+    });
+  }
+
+  private getBreakpointUri(breakpoint: vscode.Breakpoint): vscode.Uri | undefined {
+    return breakpoint instanceof vscode.SourceBreakpoint ? breakpoint.location.uri : undefined;
+  }
+
+  private describeBreakpoint(breakpoint: vscode.Breakpoint): DebugActivityData {
+    if (breakpoint instanceof vscode.SourceBreakpoint) {
+      const filePath = breakpoint.location.uri.fsPath;
+      return {
+        breakpointKind: breakpoint.condition || breakpoint.hitCondition ? 'conditional' : 'source',
+        fileName: path.basename(filePath),
+        filePath,
+        line: breakpoint.location.range.start.line + 1
+      };
+    }
+
+    if (breakpoint instanceof vscode.FunctionBreakpoint) {
+      return {
+        breakpointKind: 'function',
+        functionName: breakpoint.functionName
+      };
+    }
+
+    return { breakpointKind: 'other' };
+  }
+
+  public dispose(): void {
+    this.sessions.clear();
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+  }
+}
@@ -0,0 +1,121 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { DIAGNOSTICS_SNAPSHOT_INTERVAL } from '@codeflow/stats-engine';
+import { ActivityType, DiagnosticsSnapshotData, FileDiagnostics } from './types';
+
+type DiagnosticsEventCallback = (type: ActivityType, data: DiagnosticsSnapshotData) => void;
+type ExcludeFilter = (uri: vscode.Uri) => boolean;
+
+// Diagnostics flap while a language server re-checks; wait for them to settle
+const SNAPSHOT_DELAY = 15 * 1000;
+const MAX_FILES_PER_SNAPSHOT = 50;
+
+/**
+ * Records workspace-wide error and warning counts whenever compiler/linter
+ * diagnostics change, so stats can measure how long it takes to get back to green.
+ */
+export class DiagnosticsTracker implements vscode.Disposable {
+  private disposables: vscode.Disposable[] = [];
+  private snapshotTimer: NodeJS.Timeout | null = null;
+  private periodicTimer: NodeJS.Timeout;
+  private lastSnapshotKey = '';
+  // Only time with errors is measured, so warnings alone need no repeated snapshots
+  private hasErrors = false;
+
+  constructor(
+    private onDiagnosticsEvent: DiagnosticsEventCallback,
+    private isExcluded: ExcludeFilter = () => false
+  ) {
+    this.disposables.push(
+      vscode.languages.onDidChangeDiagnostics(() => this.scheduleSnapshot())
+    );
+    this.scheduleSnapshot();
+
+    this.periodicTimer = setInterval(() => {
+      if (this.hasErrors) {
+        this.takeSnapshot(true);
+      }
+    }, DIAGNOSTICS_SNAPSHOT_INTERVAL);
+  }
+
+  private scheduleSnapshot(): void {
+    if (this.snapshotTimer) return;
+
+    this.snapshotTimer = setTimeout(() => {
+      this.snapshotTimer = null;
+      this.takeSnapshot();
+    }, SNAPSHOT_DELAY);
+  }
+
+  private takeSnapshot(force = false): void {
+    try {
+      const files: FileDiagnostics[] = [];
+      let errors = 0;
+      let warnings = 0;
+
+      for (const [uri, diagnostics] of vscode.languages.getDiagnostics()) {
+        if (uri.scheme !== 'file' || this.isExcluded(uri)) continue;
+
+        const fileErrors = diagnostics.filter(d => d.severity === vscode.DiagnosticSeverity.Error).length;
+        const fileWarnings = diagnostics.filter(d => d.severity === vscode.DiagnosticSeverity.Warning).length;
+        if (fileErrors === 0 && fileWarnings === 0) continue;
+
+        errors += fileErrors;
+        warnings += fileWarnings;
+        files.push({
+          fileName: path.basename(uri.fsPath),
+          filePath: uri.fsPath,
+          language: this.getLanguage(uri),
+          errors: fileErrors,
+          warnings: fileWarnings
+        });
+      }
+
+      files.sort((a, b) => b.errors - a.errors || b.warnings - a.warnings);
+
+      const languages: DiagnosticsSnapshotData['languages'] = {};
+      files.forEach(file => {
+        const language = languages[file.language] || { errors: 0, warnings: 0 };
+        language.errors += file.errors;
+        language.warnings += file.warnings;
+        languages[file.language] = language;
+      });
+
+      const snapshot: DiagnosticsSnapshotData = {
+        errors,
+        warnings,
+        filesWithErrors: files.filter(f => f.errors > 0).length,
+        files: files.slice(0, MAX_FILES_PER_SNAPSHOT),
+        languages
+      };
+
+      // Only record changes; the previous snapshot holds until the next one
+      const snapshotKey = JSON.stringify(snapshot);
+      if (!force && snapshotKey === this.lastSnapshotKey) return;
+      this.lastSnapshotKey = snapshotKey;
+      this.hasErrors = errors > 0;
+
+      this.onDiagnosticsEvent(ActivityType.DIAGNOSTICS_SNAPSHOT, snapshot);
+    } catch (error) {
+      console.error('Failed to take diagnostics snapshot:', error);
+    }
+  }
+
+  private getLanguage(uri: vscode.Uri): string {
+    const document = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === uri.toString());
+    if (document) return document.languageId;
+
+    const extension = path.extname(uri.fsPath).slice(1);
+    return extension || 'unknown';
+  }
+
+  public dispose(): void {
+    clearInterval(this.periodicTimer);
+    if (this.snapshotTimer) {
+      clearTimeout(this.snapshotTimer);
+      this.snapshotTimer = null;
+    }
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+  }
+}
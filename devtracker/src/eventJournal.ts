@@ -0,0 +1,454 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { promisify } from 'util';
+import { ActivityEvent } from './types';
+import { withFileLock } from './fileLock';
+import { DataCipher, MissingKeyError } from './dataCipher';
+
+const SEGMENT_PATTERN = /^(\d{4}-\d{2}-\d{2})\.ndjson$/;
+const ARCHIVED_SEGMENT_PATTERN = /^(\d{4}-\d{2}-\d{2})\.ndjson\.gz$/;
+const ARCHIVE_DIRECTORY_NAME = 'archive';
+// Journals being compacted are renamed so their window starts a fresh one
+const JOURNAL_PATTERN = /^journal-[\w-]+\.ndjson(\.compacting)?$/;
+const LOCK_FILE_NAME = 'segments.lock';
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+// Pending events are appended after this delay unless a flush is requested
+const FLUSH_DELAY = 1000;
+// The journal is folded into dated segments once it grows past this size
+const COMPACT_THRESHOLD_BYTES = 1024 * 1024;
+// Other windows' journals untouched for this long are assumed to be abandoned
+const ABANDONED_JOURNAL_AGE = 10 * 60 * 1000;
+
+/**
+ * Append-only event storage. New events are appended as NDJSON lines to a
+ * journal which is periodically compacted into one segment file per (UTC) day,
+ * so reads only need to touch the days they ask for.
+ *
+ * Every window appends to a journal of its own and reads merge all of them, so
+ * windows never overwrite each other's events. Segments are shared and only
+ * written or read while holding a lock file.
+ *
+ * Segments past the raw retention period are gzipped into `archive/` and are
+ * still returned by reads that ask for their days.
+ *
+ * A crash can at most lose the events still waiting for the next flush; a
+ * partially written last line is skipped when reading.
+ *
+ * With encryption on, every line is encrypted on its own by the DataCipher.
+ * Files holding lines whose key isn't loaded are never compacted or rewritten,
+ * as that would lose those lines for good.
+ */
+export class EventJournal implements vscode.Disposable {
+  private readonly directory: string;
+  private readonly archiveDirectory: string;
+  private readonly journalPath: string;
+  private readonly lockPath: string;
+  private pending: ActivityEvent[] = [];
+  private flushTimer: NodeJS.Timeout | null = null;
+  // Serializes file operations so appends never interleave with compaction
+  private queue: Promise<void>;
+
+  constructor(storageUri: vscode.Uri, instanceId: string, private cipher: DataCipher) {
+    // Nothing is read or written before the encryption keys are loaded
+    this.queue = cipher.whenReady();
+    this.directory = path.join(storageUri.fsPath, 'events');
+    this.archiveDirectory = path.join(this.directory, ARCHIVE_DIRECTORY_NAME);
+    this.journalPath = path.join(this.directory, `journal-${instanceId.replace(/[^\w-]/g, '')}.ndjson`);
+    this.lockPath = path.join(this.directory, LOCK_FILE_NAME);
+  }
+
+  public async initialize(): Promise<void> {
+    await fs.mkdir(this.archiveDirectory, { recursive: true });
+
+    await this.withLock(async () => {
+      const files = (await this.listSegments()).map(segment => segment.file);
+      for (const file of files) {
+        await this.terminateLastLine(path.join(this.directory, file));
+      }
+    });
+  }
+
+  /**
+   * A write cut short by a crash leaves an unterminated line; end it so the
+   * next append starts on a line of its own
+   */
+  private async terminateLastLine(filePath: string): Promise<void> {
+    let handle: fs.FileHandle | undefined;
+    try {
+      handle = await fs.open(filePath, 'r+');
+      const { size } = await handle.stat();
+      if (size === 0) return;
+
+      const lastByte = Buffer.alloc(1);
+      await handle.read(lastByte, 0, 1, size - 1);
+      if (lastByte[0] !== 0x0a) {
+        await handle.write('\n', size);
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    } finally {
+      await handle?.close();
+    }
+  }
+
+  public append(event: ActivityEvent, immediate = false): void {
+    this.pending.push(event);
+
+    if (immediate) {
+      this.flushInBackground();
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flushInBackground(), FLUSH_DELAY);
+    }
+  }
+
+  private flushInBackground(): void {
+    this.flush().catch(error => console.error('Failed to flush event journal:', error));
+  }
+
+  public flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    return this.enqueue(async () => {
+      if (this.pending.length === 0) return;
+
+      const events = this.pending;
+      this.pending = [];
+      try {
+        await fs.appendFile(this.journalPath, this.serialize(events), 'utf8');
+      } catch (error) {
+        // Keep the events for the next attempt
+        this.pending = [...events, ...this.pending];
+        throw error;
+      }
+
+      const stats = await fs.stat(this.journalPath);
+      if (stats.size > COMPACT_THRESHOLD_BYTES) {
+        await this.skipIfKeyMissing(this.journalPath, () => this.compactJournal());
+      }
+    });
+  }
+
+  /**
+   * Fold this window's journal, and any journals left behind by windows that
+   * are gone, into the dated segments
+   */
+  public compact(): Promise<void> {
+    return this.enqueue(async () => {
+      await this.skipIfKeyMissing(this.journalPath, () => this.compactJournal());
+
+      for (const file of await this.listJournals()) {
+        const filePath = path.join(this.directory, file);
+        if (filePath === this.journalPath || !(await this.isAbandoned(filePath))) continue;
+
+        // Renaming first means a window that is still alive just starts a new journal
+        const compactingPath = filePath.endsWith('.compacting') ? filePath : `${filePath}.compacting`;
+        try {
+          await fs.rename(filePath, compactingPath);
+        } catch (error) {
+          // Another window got there first
+          if ((error as NodeJS.ErrnoException).code === 'ENOENT') continue;
+          throw error;
+        }
+        await this.skipIfKeyMissing(compactingPath, () => this.compactFile(compactingPath));
+      }
+    });
+  }
+
+  // The file is left in place and still read; it is compacted once its key is back
+  private async skipIfKeyMissing(filePath: string, operation: () => Promise<void>): Promise<void> {
+    try {
+      await operation();
+    } catch (error) {
+      if (!(error instanceof MissingKeyError)) throw error;
+      console.error(`Left ${path.basename(filePath)} uncompacted:`, error.message);
+    }
+  }
+
+  private async isAbandoned(filePath: string): Promise<boolean> {
+    if (filePath.endsWith('.compacting')) return true;
+    try {
+      const stats = await fs.stat(filePath);
+      return Date.now() - stats.mtimeMs > ABANDONED_JOURNAL_AGE;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Events from all windows between the given timestamps, oldest first. Only
+   * the segments for the days in range are read.
+   */
+  public read(startTime?: number, endTime?: number): Promise<ActivityEvent[]> {
+    this.flushInBackground();
+
+    return this.enqueue(() => this.withLock(async () => {
+      const startDay = startTime !== undefined ? this.getDayKey(startTime) : undefined;
+      const endDay = endTime !== undefined ? this.getDayKey(endTime) : undefined;
+
+      const inRange = (segment: { day: string }) =>
+        (!startDay || segment.day >= startDay) && (!endDay || segment.day <= endDay);
+      const files = [
+        ...(await this.listArchivedSegments()).filter(inRange).map(segment => path.join(ARCHIVE_DIRECTORY_NAME, segment.file)),
+        ...(await this.listSegments()).filter(inRange).map(segment => segment.file),
+        ...await this.listJournals()
+      ];
+
+      // A crash between writing segments and truncating the journal leaves duplicates
+      const events = new Map<string, ActivityEvent>();
+      for (const file of files) {
+        for (const event of await this.readFile(path.join(this.directory, file))) {
+          if ((startTime === undefined || event.timestamp >= startTime) &&
+              (endTime === undefined || event.timestamp <= endTime)) {
+            events.set(event.id, event);
+          }
+        }
+      }
+
+      return Array.from(events.values()).sort((a, b) => a.timestamp - b.timestamp);
+    }));
+  }
+
+  /**
+   * Write events straight into their segments, e.g. when importing older data
+   */
+  public writeEvents(events: ActivityEvent[]): Promise<void> {
+    return this.enqueue(() => this.withLock(() => this.appendToSegments(events)));
+  }
+
+  /**
+   * Start of the oldest day still held uncompressed
+   */
+  public async getOldestSegmentTime(): Promise<number | undefined> {
+    const oldest = (await this.listSegments())[0];
+    return oldest ? Date.parse(oldest.day) : undefined;
+  }
+
+  /**
+   * Compress whole days that ended before `archiveFrom` into the archive, and
+   * delete days (compressed or not) that ended before `deleteFrom`
+   */
+  public archiveBefore(archiveFrom: number, deleteFrom: number): Promise<void> {
+    const archiveDay = this.getDayKey(archiveFrom);
+    const deleteDay = this.getDayKey(deleteFrom);
+
+    return this.enqueue(() => this.withLock(async () => {
+      for (const segment of await this.listSegments()) {
+        if (segment.day >= archiveDay) continue;
+
+        const segmentPath = path.join(this.directory, segment.file);
+        if (segment.day >= deleteDay) {
+          await this.archiveSegment(segmentPath, path.join(this.archiveDirectory, `${segment.file}.gz`));
+        }
+        await fs.rm(segmentPath, { force: true });
+      }
+
+      for (const segment of await this.listArchivedSegments()) {
+        if (segment.day < deleteDay) {
+          await fs.rm(path.join(this.archiveDirectory, segment.file), { force: true });
+        }
+      }
+    }));
+  }
+
+  /**
+   * Rewrite every stored event, compressed or not, through `transform`.
+   * Used by storage migrations when event shapes change.
+   */
+  public rewriteEvents(transform: (event: ActivityEvent) => ActivityEvent): Promise<void> {
+    return this.enqueue(() => this.withLock(async () => {
+      const files = [
+        ...(await this.listSegments()).map(segment => path.join(this.directory, segment.file)),
+        ...(await this.listArchivedSegments()).map(segment => path.join(this.archiveDirectory, segment.file))
+      ];
+
+      for (const filePath of files) {
+        const content = Buffer.from(this.serialize((await this.readFile(filePath, true)).map(transform)));
+        const tempPath = `${filePath}.tmp`;
+        await fs.writeFile(tempPath, filePath.endsWith('.gz') ? await gzip(content) : content);
+        await fs.rename(tempPath, filePath);
+      }
+    }));
+  }
+
+  private async archiveSegment(segmentPath: string, archivePath: string): Promise<void> {
+    // Late events compacted into an already archived day are added to its archive
+    const archived = await fs.readFile(archivePath).then(content => gunzip(content)).catch(() => Buffer.alloc(0));
+    const content = Buffer.concat([archived, await fs.readFile(segmentPath)]);
+
+    const tempPath = `${archivePath}.tmp`;
+    await fs.writeFile(tempPath, await gzip(content));
+    await fs.rename(tempPath, archivePath);
+  }
+
+  public clear(): Promise<void> {
+    this.pending = [];
+
+    return this.enqueue(() => this.withLock(async () => {
+      const files = [...(await this.listSegments()).map(segment => segment.file), ...await this.listJournals()];
+      for (const file of files) {
+        await fs.rm(path.join(this.directory, file), { force: true });
+      }
+      for (const segment of await this.listArchivedSegments()) {
+        await fs.rm(path.join(this.archiveDirectory, segment.file), { force: true });
+      }
+    }));
+  }
+
+  private compactJournal(): Promise<void> {
+    return this.compactFile(this.journalPath);
+  }
+
+  private async compactFile(filePath: string): Promise<void> {
+    await this.withLock(async () => {
+      const events = await this.readFile(filePath, true);
+      if (events.length > 0) {
+        await this.appendToSegments(events);
+      }
+      await fs.rm(filePath, { force: true });
+    });
+  }
+
+  private async appendToSegments(events: ActivityEvent[]): Promise<void> {
+    const byDay = new Map<string, ActivityEvent[]>();
+    events.forEach(event => {
+      const day = this.getDayKey(event.timestamp);
+      if (!byDay.has(day)) {
+        byDay.set(day, []);
+      }
+      byDay.get(day)!.push(event);
+    });
+
+    for (const [day, dayEvents] of byDay) {
+      await fs.appendFile(path.join(this.directory, `${day}.ndjson`), this.serialize(dayEvents), 'utf8');
+    }
+  }
+
+  private listSegments(): Promise<Array<{ day: string; file: string }>> {
+    return this.listDays(this.directory, SEGMENT_PATTERN);
+  }
+
+  private listArchivedSegments(): Promise<Array<{ day: string; file: string }>> {
+    return this.listDays(this.archiveDirectory, ARCHIVED_SEGMENT_PATTERN);
+  }
+
+  private async listDays(directory: string, pattern: RegExp): Promise<Array<{ day: string; file: string }>> {
+    const files = await fs.readdir(directory).catch(() => [] as string[]);
+    return files
+      .map(file => ({ file, match: pattern.exec(file) }))
+      .filter(entry => entry.match)
+      .map(entry => ({ day: entry.match![1], file: entry.file }))
+      .sort((a, b) => a.day.localeCompare(b.day));
+  }
+
+  private async listJournals(): Promise<string[]> {
+    const files = await fs.readdir(this.directory).catch(() => [] as string[]);
+    return files.filter(file => JOURNAL_PATTERN.test(file));
+  }
+
+  private withLock<T>(operation: () => Promise<T>): Promise<T> {
+    return withFileLock(this.lockPath, operation);
+  }
+
+  /**
+   * IDs of the encryption keys used by any stored line, compressed or not
+   */
+  public getKeyIdsInUse(): Promise<Set<string>> {
+    return this.enqueue(() => this.withLock(async () => {
+      const files = [
+        ...(await this.listArchivedSegments()).map(segment => path.join(ARCHIVE_DIRECTORY_NAME, segment.file)),
+        ...(await this.listSegments()).map(segment => segment.file),
+        ...await this.listJournals()
+      ];
+
+      const keyIds = new Set<string>();
+      for (const file of files) {
+        const content = await this.readContent(path.join(this.directory, file), true);
+        for (const line of content.split('\n')) {
+          const keyId = this.cipher.getKeyId(line);
+          if (keyId) keyIds.add(keyId);
+        }
+      }
+      return keyIds;
+    }));
+  }
+
+  /**
+   * Lines that can't be parsed (e.g. cut short by a crash) are skipped. So are
+   * lines whose key isn't loaded, unless `strict`: callers that replace or
+   * delete the file afterwards get a MissingKeyError instead.
+   */
+  private async readFile(filePath: string, strict = false): Promise<ActivityEvent[]> {
+    const content = await this.readContent(filePath, strict);
+
+    const events: ActivityEvent[] = [];
+    let skipped = 0;
+    let missingKey = 0;
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        events.push(JSON.parse(this.cipher.decrypt(line)));
+      } catch (error) {
+        if (!(error instanceof MissingKeyError)) {
+          skipped++;
+        } else if (strict) {
+          throw new MissingKeyError(`${path.basename(filePath)}: ${error.message}`);
+        } else {
+          missingKey++;
+        }
+      }
+    }
+
+    if (skipped > 0) {
+      console.warn(`Skipped ${skipped} unreadable line(s) in ${path.basename(filePath)}`);
+    }
+    if (missingKey > 0) {
+      console.error(`Skipped ${missingKey} line(s) in ${path.basename(filePath)} encrypted with a key that isn't loaded`);
+    }
+    return events;
+  }
+
+  private async readContent(filePath: string, strict: boolean): Promise<string> {
+    let raw: Buffer;
+    try {
+      raw = await fs.readFile(filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return '';
+      throw error;
+    }
+
+    try {
+      return (filePath.endsWith('.gz') ? await gunzip(raw) : raw).toString('utf8');
+    } catch (error) {
+      // An archive that would be replaced is better left as it is
+      if (strict) throw error;
+      console.warn(`Skipped unreadable archive ${path.basename(filePath)}:`, error);
+      return '';
+    }
+  }
+
+  private serialize(events: ActivityEvent[]): string {
+    return events.map(event => this.cipher.encrypt(JSON.stringify(event))).join('\n') + '\n';
+  }
+
+  private getDayKey(timestamp: number): string {
+    return new Date(timestamp).toISOString().split('T')[0];
+  }
+
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation);
+    this.queue = result.then(() => undefined, () => undefined);
+    return result;
+  }
+
+  public dispose(): void {
+    this.flushInBackground();
+  }
+}
@@ -0,0 +1,144 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { minimatch } from 'minimatch';
+import { WorkspaceTrackingConfig } from './types';
+
+const CONFIG_FILE_NAME = '.devtracker.json';
+
+/**
+ * Decides which files and folders may be tracked or synced, combining the
+ * `devActivityTracker.exclude` / `include` settings with an optional
+ * `.devtracker.json` committed at the root of each workspace folder.
+ */
+export class ExclusionRules implements vscode.Disposable {
+  private disposables: vscode.Disposable[] = [];
+  private folderConfigs = new Map<string, WorkspaceTrackingConfig>();
+  private ready: Promise<void>;
+
+  constructor() {
+    this.ready = this.loadFolderConfigs();
+
+    const watcher = vscode.workspace.createFileSystemWatcher(`**/${CONFIG_FILE_NAME}`);
+    this.disposables.push(
+      watcher,
+      watcher.onDidCreate(() => this.loadFolderConfigs()),
+      watcher.onDidChange(() => this.loadFolderConfigs()),
+      watcher.onDidDelete(() => this.loadFolderConfigs()),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.loadFolderConfigs())
+    );
+  }
+
+  /**
+   * Resolves once the `.devtracker.json` files present at startup are loaded;
+   * until then rules from them aren't applied
+   */
+  public whenReady(): Promise<void> {
+    return this.ready;
+  }
+
+  private async loadFolderConfigs(): Promise<void> {
+    const configs = new Map<string, WorkspaceTrackingConfig>();
+
+    for (const folder of vscode.workspace.workspaceFolders || []) {
+      try {
+        const configUri = vscode.Uri.joinPath(folder.uri, CONFIG_FILE_NAME);
+        const content = await vscode.workspace.fs.readFile(configUri);
+        configs.set(folder.uri.fsPath, JSON.parse(Buffer.from(content).toString('utf8')));
+      } catch (error) {
+        if (!(error instanceof vscode.FileSystemError)) {
+          console.error(`Failed to read ${CONFIG_FILE_NAME} in ${folder.name}:`, error);
+        }
+      }
+    }
+
+    this.folderConfigs = configs;
+  }
+
+  /**
+   * True when nothing about this resource or folder may be recorded
+   */
+  public isExcluded(resource: vscode.Uri | undefined, folder: vscode.WorkspaceFolder | undefined): boolean {
+    const filePath = resource && resource.scheme === 'file' ? resource.fsPath : undefined;
+    return this.isPathExcluded(filePath, folder?.uri.fsPath, () => this.isDirectory(filePath));
+  }
+
+  /**
+   * Same as `isExcluded` for paths recorded elsewhere, such as in imported
+   * events. `isDirectory` is only asked when include rules apply.
+   */
+  public isPathExcluded(
+    filePath: string | undefined,
+    folderPath: string | undefined,
+    isDirectory: () => boolean = () => false
+  ): boolean {
+    const folderConfig = folderPath ? this.folderConfigs.get(folderPath) : undefined;
+    if (folderConfig?.disableTracking) return true;
+
+    const config = vscode.workspace.getConfiguration('devActivityTracker');
+    const exclude = [
+      ...config.get<string[]>('exclude', []),
+      ...(folderConfig?.exclude || [])
+    ];
+    const include = config.get<string[]>('include', []);
+
+    const folderPaths = folderPath ? [this.normalize(folderPath)] : [];
+    const filePaths: string[] = [];
+    // Events about the folder itself, such as tasks or debug sessions scoped to it
+    let isFolderRoot = false;
+    if (filePath) {
+      filePaths.push(this.normalize(filePath));
+      if (folderPath && path.isAbsolute(filePath)) {
+        const relative = path.relative(folderPath, filePath);
+        isFolderRoot = relative === '';
+        if (relative && !relative.startsWith('..')) filePaths.push(this.normalize(relative));
+      }
+    }
+
+    const candidates = [...folderPaths, ...filePaths];
+    if (candidates.some(candidate => this.matchesAny(candidate, exclude))) {
+      return true;
+    }
+
+    // Include rules only narrow down which files are tracked; directories such as a terminal's cwd pass
+    return include.length > 0 && filePaths.length > 0 &&
+      !filePaths.some(candidate => this.matchesAny(candidate, include)) &&
+      !isFolderRoot && !isDirectory();
+  }
+
+  private isDirectory(filePath: string | undefined): boolean {
+    if (!filePath) return false;
+    try {
+      return fs.statSync(filePath).isDirectory();
+    } catch {
+      // Deleted or renamed files are gone by the time their event is recorded
+      return false;
+    }
+  }
+
+  /**
+   * True when events from this folder may be stored locally but never synced
+   */
+  public isSyncDisabled(folderPath: string | undefined): boolean {
+    if (!folderPath) return false;
+    const folderConfig = this.folderConfigs.get(folderPath);
+    return !!(folderConfig?.disableSync || folderConfig?.disableTracking);
+  }
+
+  private matchesAny(candidate: string, patterns: string[]): boolean {
+    return patterns.some(pattern => minimatch(candidate, pattern, {
+      dot: true,
+      matchBase: !pattern.includes('/'),
+      nocase: process.platform === 'win32'
+    }));
+  }
+
+  private normalize(filePath: string): string {
+    return filePath.split(path.sep).join('/');
+  }
+
+  public dispose(): void {
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+  }
+}
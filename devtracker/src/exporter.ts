@@ -0,0 +1,228 @@
+import { ActivityEvent, ActivityType, ExportData, SessionData } from './types';
+
+export type ExportFormat = 'json' | 'csv' | 'ndjson' | 'timesheet' | 'ics';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  startTime?: number;
+  endTime?: number;
+  // Empty or missing filters include everything
+  projects?: string[];
+  languages?: string[];
+  eventTypes?: ActivityType[];
+  // Apply the `devActivityTracker.privacy.export` policy
+  redact?: boolean;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; description: string; sessionsOnly?: boolean }> = {
+  json: { label: 'JSON', extension: 'json', description: 'Events, sessions and statistics' },
+  csv: { label: 'CSV', extension: 'csv', description: 'One row per event with every data field' },
+  ndjson: { label: 'NDJSON', extension: 'ndjson', description: 'One event per line, for log tools' },
+  timesheet: { label: 'Timesheet (CSV)', extension: 'csv', description: 'Sessions with hours per project', sessionsOnly: true },
+  ics: { label: 'Calendar (.ics)', extension: 'ics', description: 'Sessions as calendar events', sessionsOnly: true }
+};
+
+// Event fields written as their own CSV columns, ahead of the flattened data fields
+const EVENT_COLUMNS: Array<keyof ActivityEvent> = ['id', 'timestamp', 'type', 'sessionId', 'instanceId', 'workspaceId', 'projectName'];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Filters activity for the export command and writes it out in each of the
+ * supported formats
+ */
+export class ActivityExporter {
+  constructor(private options: ExportOptions) {}
+
+  public filterEvents(events: ActivityEvent[]): ActivityEvent[] {
+    const { projects, languages, eventTypes } = this.options;
+
+    return events.filter(event => {
+      if (!this.inRange(event.timestamp, event.timestamp)) return false;
+      if (projects?.length && !projects.includes(event.projectName || '')) return false;
+      if (eventTypes?.length && !eventTypes.includes(event.type)) return false;
+      if (languages?.length) {
+        const language = (event.data as { language?: string }).language;
+        if (!language || !languages.includes(language)) return false;
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Sessions overlapping the date range that touched one of the selected projects
+   */
+  public filterSessions(sessions: SessionData[]): SessionData[] {
+    const { projects } = this.options;
+
+    return sessions.filter(session => {
+      if (!this.inRange(session.startTime, session.endTime ?? session.startTime)) return false;
+      return !projects?.length || this.getSessionProjects(session).some(project => projects.includes(project));
+    });
+  }
+
+  public format(data: ExportData): string {
+    switch (this.options.format) {
+      case 'csv':
+        return this.toCsv(data.events);
+      case 'ndjson':
+        return data.events.map(event => JSON.stringify(event)).join('\n') + '\n';
+      case 'timesheet':
+        return this.toTimesheet(data.sessions);
+      case 'ics':
+        return this.toICalendar(data.sessions);
+      default:
+        return JSON.stringify(data, null, 2);
+    }
+  }
+
+  private inRange(startTime: number, endTime: number): boolean {
+    return (this.options.startTime === undefined || endTime >= this.options.startTime) &&
+      (this.options.endTime === undefined || startTime <= this.options.endTime);
+  }
+
+  private getSessionProjects(session: SessionData): string[] {
+    return [
+      session.projectName,
+      ...(session.workspaceFolders || []).map(folder => folder.projectName),
+      ...(session.folderActivity || []).map(folder => folder.projectName)
+    ].filter((project): project is string => !!project);
+  }
+
+  /**
+   * Data fields are flattened into `data.<path>` columns; arrays are written as JSON
+   */
+  private toCsv(events: ActivityEvent[]): string {
+    const flattened = events.map(event => this.flatten(event.data as unknown as Record<string, unknown>, 'data'));
+    const dataColumns = Array.from(new Set(flattened.flatMap(row => Object.keys(row)))).sort();
+
+    const rows = events.map((event, index) => [
+      ...EVENT_COLUMNS.map(column => column === 'timestamp'
+        ? new Date(event.timestamp).toISOString()
+        : event[column]),
+      ...dataColumns.map(column => flattened[index][column])
+    ]);
+
+    return this.toCsvLines([[...EVENT_COLUMNS, ...dataColumns], ...rows]);
+  }
+
+  private flatten(value: Record<string, unknown>, prefix: string, result: Record<string, unknown> = {}): Record<string, unknown> {
+    Object.entries(value || {}).forEach(([key, field]) => {
+      const column = `${prefix}.${key}`;
+      if (field && typeof field === 'object' && !Array.isArray(field)) {
+        this.flatten(field as Record<string, unknown>, column, result);
+      } else if (field !== undefined) {
+        result[column] = Array.isArray(field) ? JSON.stringify(field) : field;
+      }
+    });
+    return result;
+  }
+
+  /**
+   * One row per project a session worked on, with the hours spent on it
+   */
+  private toTimesheet(sessions: SessionData[]): string {
+    const { projects } = this.options;
+    const hours = (ms: number) => (ms / HOUR_MS).toFixed(2);
+    const rows: unknown[][] = [];
+
+    sessions.forEach(session => {
+      const start = new Date(session.startTime);
+      const end = new Date(session.endTime ?? session.startTime);
+      const folders = session.folderActivity?.length
+        ? session.folderActivity
+        : [{ projectName: session.projectName || '', events: session.totalEvents, activeTime: session.activeTime }];
+
+      folders
+        .filter(folder => !projects?.length || projects.includes(folder.projectName))
+        .forEach(folder => rows.push([
+          this.formatLocalDate(start),
+          folder.projectName,
+          this.formatLocalTime(start),
+          this.formatLocalTime(end),
+          hours(end.getTime() - start.getTime()),
+          hours(folder.activeTime),
+          folder.events,
+          session.id
+        ]));
+    });
+
+    return this.toCsvLines([
+      ['date', 'project', 'start', 'end', 'sessionHours', 'activeHours', 'events', 'sessionId'],
+      ...rows
+    ]);
+  }
+
+  private toICalendar(sessions: SessionData[]): string {
+    const stamp = this.formatICalendarTime(Date.now());
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Developer Activity Tracker//EN',
+      'CALSCALE:GREGORIAN',
+      ...sessions.flatMap(session => {
+        const projects = Array.from(new Set(
+          (session.folderActivity || []).map(folder => folder.projectName).concat(session.projectName || [])
+        ));
+        const activeMinutes = Math.round(session.activeTime / 60000);
+
+        return [
+          'BEGIN:VEVENT',
+          `UID:${session.id}@devactivitytracker`,
+          `DTSTAMP:${stamp}`,
+          `DTSTART:${this.formatICalendarTime(session.startTime)}`,
+          `DTEND:${this.formatICalendarTime(session.endTime ?? session.startTime)}`,
+          `SUMMARY:${this.escapeICalendarText(projects.length > 0 ? `Coding: ${projects.join(', ')}` : 'Coding session')}`,
+          `DESCRIPTION:${this.escapeICalendarText(`${activeMinutes} min active, ${session.totalEvents} events`)}`,
+          'END:VEVENT'
+        ];
+      }),
+      'END:VCALENDAR'
+    ];
+
+    return lines.map(line => this.foldICalendarLine(line)).join('\r\n') + '\r\n';
+  }
+
+  // RFC 4180: fields holding separators, quotes or line breaks are quoted
+  private toCsvLines(rows: unknown[][]): string {
+    const escape = (value: unknown) => {
+      const text = value === undefined || value === null ? '' : String(value);
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    return rows.map(row => row.map(escape).join(',')).join('\r\n') + '\r\n';
+  }
+
+  private formatLocalDate(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+
+  private formatLocalTime(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+  }
+
+  private formatICalendarTime(time: number): string {
+    return new Date(time).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  }
+
+  private escapeICalendarText(text: string): string {
+    return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+  }
+
+  // Content lines are limited to 75 octets; continuations start with a space
+  private foldICalendarLine(line: string): string {
+    const chunks: string[] = [];
+    let chunk = '';
+    for (const char of line) {
+      const limit = chunks.length === 0 ? 75 : 74;
+      if (Buffer.byteLength(chunk + char) > limit) {
+        chunks.push(chunk);
+        chunk = '';
+      }
+      chunk += char;
+    }
+    chunks.push(chunk);
+    return chunks.join('\r\n ');
+  }
+}
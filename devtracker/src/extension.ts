@@ -3,20 +3,34 @@ import { DataManager } from './dataManager';
 import { ActivityTracker } from './activityTracker';
 import { StatsViewProvider } from './statsViewProvider';
 import { ApiClient } from './apiClient';
+import { Redactor } from './redactor';
+import { ExclusionRules } from './exclusionRules';
+import { BackupManager } from './backupManager';
+import { DataCipher } from './dataCipher';
+import { EXPORT_FORMATS, ExportFormat, ExportOptions } from './exporter';
+import { ActivityType } from './types';
 
 let dataManager: DataManager;
 let activityTracker: ActivityTracker;
 let statsViewProvider: StatsViewProvider;
 let apiClient: ApiClient;
+let redactor: Redactor;
+let exclusionRules: ExclusionRules;
+let backupManager: BackupManager;
+let dataCipher: DataCipher;
 
 export function activate(context: vscode.ExtensionContext) {
   console.log('🚀 Developer Activity Tracker activated');
 
   // Initialize core components
-  dataManager = new DataManager(context);
-  activityTracker = new ActivityTracker(context, dataManager);
+  redactor = new Redactor(context);
+  exclusionRules = new ExclusionRules();
+  dataCipher = new DataCipher(context);
+  dataManager = new DataManager(context, redactor, exclusionRules, dataCipher);
+  activityTracker = new ActivityTracker(context, dataManager, redactor, exclusionRules);
   statsViewProvider = new StatsViewProvider(context, dataManager);
   apiClient = new ApiClient(context);
+  backupManager = new BackupManager(context, dataManager, dataCipher);
 
   // Set context for views
   vscode.commands.executeCommand('setContext', 'devActivityTracker.enabled', true);
@@ -30,10 +44,22 @@ export function activate(context: vscode.ExtensionContext) {
     await exportActivityData();
   });
 
+  const importDataCommand = vscode.commands.registerCommand('devActivityTracker.importData', async () => {
+    await importActivityData();
+  });
+
   const clearDataCommand = vscode.commands.registerCommand('devActivityTracker.clearData', async () => {
     await clearActivityData();
   });
 
+  const restoreBackupCommand = vscode.commands.registerCommand('devActivityTracker.restoreBackup', async () => {
+    await restoreFromBackup();
+  });
+
+  const rotateKeyCommand = vscode.commands.registerCommand('devActivityTracker.rotateEncryptionKey', async () => {
+    await rotateEncryptionKey();
+  });
+
   const toggleTrackingCommand = vscode.commands.registerCommand('devActivityTracker.toggleTracking', async () => {
     await toggleTracking();
   });
@@ -57,9 +83,15 @@ export function activate(context: vscode.ExtensionContext) {
   context.subscriptions.push(
     activityTracker,
     dataManager,
+    exclusionRules,
+    dataCipher,
+    backupManager,
     showStatsCommand,
     exportDataCommand,
+    importDataCommand,
     clearDataCommand,
+    restoreBackupCommand,
+    rotateKeyCommand,
     toggleTrackingCommand,
     statsWebviewProvider,
     syncCommand
@@ -406,6 +438,11 @@ function generateStatsHTML(stats: any): string {
                     <span class="stat-number">${stats.streakData.current}</span>
                     <span class="stat-label">Current Streak</span>
                 </div>
+                
+                <div class="stat-card">
+                    <span class="stat-number">+${stats.linesAdded.toLocaleString()} / -${stats.linesDeleted.toLocaleString()}</span>
+                    <span class="stat-label">Lines Added / Deleted</span>
+                </div>
             </div>
 
             <div class="productivity-score">
@@ -440,6 +477,112 @@ function generateStatsHTML(stats: any): string {
                         `).join('')}
                     </ul>
                 </div>
+
+                <div class="list-card">
+                    <h3 class="list-title">🔁 Build &amp; Test Loop</h3>
+                    <ul class="item-list">
+                        ${[
+                            { label: 'Builds', outcome: stats.feedbackLoop.builds },
+                            { label: 'Tests', outcome: stats.feedbackLoop.tests },
+                            { label: 'Lint', outcome: stats.feedbackLoop.lints }
+                        ].map(({ label, outcome }) => `
+                            <li>
+                                <span class="item-name">${label}</span>
+                                <span class="item-value">${outcome.runs} runs · ${Math.round(outcome.passRate * 100)}% passed</span>
+                            </li>
+                        `).join('')}
+                        <li>
+                            <span class="item-name">Waiting on builds &amp; tests</span>
+                            <span class="item-value">${Math.round(stats.feedbackLoop.waitingTime / (1000 * 60))} min</span>
+                        </li>
+                    </ul>
+                </div>
+
+                <div class="list-card">
+                    <h3 class="list-title">🚦 Time to Green</h3>
+                    <ul class="item-list">
+                        <li>
+                            <span class="item-name">Average time to green</span>
+                            <span class="item-value">${Math.round(stats.diagnostics.timeToGreen / (1000 * 60))} min</span>
+                        </li>
+                        <li>
+                            <span class="item-name">Time with errors</span>
+                            <span class="item-value">${Math.round(stats.diagnostics.timeWithErrors / (1000 * 60))} min</span>
+                        </li>
+                        ${stats.diagnostics.errorHeavyFiles.slice(0, 6).map((file: any) => `
+                            <li>
+                                <span class="item-name" title="${file.filePath}">${file.file}</span>
+                                <span class="item-value">${Math.round(file.errorTime / (1000 * 60))} min · ${file.maxErrors} errors</span>
+                            </li>
+                        `).join('')}
+                    </ul>
+                </div>
+
+                <div class="list-card">
+                    <h3 class="list-title">💻 Terminal Commands</h3>
+                    <ul class="item-list">
+                        ${stats.terminalCommands.slice(0, 8).map((command: any) => `
+                            <li>
+                                <span class="item-name">${command.command}</span>
+                                <span class="item-value">${command.count} runs · ${Math.round(command.failureRate * 100)}% failed</span>
+                            </li>
+                        `).join('')}
+                    </ul>
+                </div>
+
+                <div class="list-card">
+                    <h3 class="list-title">✍️ Edit Sources</h3>
+                    <ul class="item-list">
+                        ${(() => {
+                            const totalCharacters = stats.editSources.reduce((sum: number, s: any) => sum + s.characters, 0);
+                            return stats.editSources.map((source: any) => `
+                            <li>
+                                <span class="item-name">${source.source}</span>
+                                <span class="item-value">${totalCharacters > 0 ? Math.round((source.characters / totalCharacters) * 100) : 0}%</span>
+                            </li>
+                        `).join('');
+                        })()}
+                    </ul>
+                </div>
+
+                <div class="list-card">
+                    <h3 class="list-title">📄 Time by File</h3>
+                    <ul class="item-list">
+                        ${stats.durations.files.slice(0, 8).map((file: any) => {
+                            const fileName = file.name.split(/[/\\]/).pop();
+                            return `
+                            <li>
+                                <span class="item-name" title="${file.name}">${fileName}</span>
+                                <span class="item-value">${Math.round(file.time / (1000 * 60))} min</span>
+                            </li>
+                        `;
+                        }).join('')}
+                    </ul>
+                </div>
+
+                <div class="list-card">
+                    <h3 class="list-title">🌿 Time by Branch</h3>
+                    <ul class="item-list">
+                        ${stats.durations.branches.slice(0, 8).map((branch: any) => `
+                            <li>
+                                <span class="item-name">${branch.name}</span>
+                                <span class="item-value">${Math.round(branch.time / (1000 * 60))} min</span>
+                            </li>
+                        `).join('')}
+                    </ul>
+                </div>
+
+                <div class="list-card">
+                    <h3 class="list-title">📁 Time by Project</h3>
+                    <ul class="item-list">
+                        ${stats.projectActivity.slice(0, 8).map((project: any) => `
+                            <li>
+                                <span class="item-name" title="${project.workspaceId || project.projectName}">${project.projectName}</span>
+                                <span class="item-value">${Math.round(project.activeTime / (1000 * 60))} min</span>
+                            </li>
+                        `).join('')}
+                    </ul>
+                </div>
             </div>
         ` : `
             <div class="empty-state">
@@ -493,32 +636,171 @@ function generateStatsHTML(stats: any): string {
 
 async function exportActivityData() {
   try {
-    const config = vscode.workspace.getConfiguration('devActivityTracker');
-    const defaultFormat = config.get<'json' | 'csv'>('exportFormat', 'json');
-    
+    const options = await pickExportOptions();
+    if (!options) return;
+
+    const { extension } = EXPORT_FORMATS[options.format];
     const uri = await vscode.window.showSaveDialog({
-      defaultUri: vscode.Uri.file(`activity-data-${new Date().toISOString().split('T')[0]}.${defaultFormat}`),
+      defaultUri: vscode.Uri.file(`activity-${options.format === 'timesheet' ? 'timesheet' : 'data'}-${new Date().toISOString().split('T')[0]}.${extension}`),
+      filters: { [EXPORT_FORMATS[options.format].label]: [extension] }
+    });
+    if (!uri) return;
+
+    const count = await dataManager.exportData(uri, options);
+    const exported = EXPORT_FORMATS[options.format].sessionsOnly ? `${count} sessions` : `${count} events`;
+
+    vscode.window.showInformationMessage(
+      `✅ Exported ${exported} to ${uri.fsPath}`,
+      'Open File'
+    ).then(selection => {
+      if (selection === 'Open File') {
+        vscode.commands.executeCommand('vscode.open', uri);
+      }
+    });
+  } catch (error) {
+    vscode.window.showErrorMessage(`❌ Failed to export data: ${error}`);
+  }
+}
+
+/**
+ * Walk through format, date range, filters and redaction; undefined when cancelled
+ */
+async function pickExportOptions(): Promise<ExportOptions | undefined> {
+  const config = vscode.workspace.getConfiguration('devActivityTracker');
+  const defaultFormat = config.get<ExportFormat>('exportFormat', 'json');
+
+  const formatItems = (Object.keys(EXPORT_FORMATS) as ExportFormat[])
+    .sort((a, b) => Number(b === defaultFormat) - Number(a === defaultFormat))
+    .map(format => ({ label: EXPORT_FORMATS[format].label, description: EXPORT_FORMATS[format].description, format }));
+  const formatPick = await vscode.window.showQuickPick(formatItems, { title: 'Export Activity Data (1/4): Format' });
+  if (!formatPick) return undefined;
+
+  const range = await pickExportRange();
+  if (!range) return undefined;
+
+  const options: ExportOptions = { format: formatPick.format, ...range };
+  const choices = await dataManager.getExportFilterChoices(range.startTime, range.endTime);
+
+  const projects = await pickFilterValues('Export Activity Data (3/4): Projects', choices.projects);
+  if (!projects) return undefined;
+  options.projects = projects;
+
+  // Timesheets and calendars list sessions, which aren't tied to a language or event type
+  if (!EXPORT_FORMATS[options.format].sessionsOnly) {
+    const languages = await pickFilterValues('Export Activity Data (3/4): Languages', choices.languages);
+    if (!languages) return undefined;
+    options.languages = languages;
+
+    const eventTypes = await pickFilterValues('Export Activity Data (3/4): Event types', Object.values(ActivityType));
+    if (!eventTypes) return undefined;
+    options.eventTypes = eventTypes as ActivityType[];
+  }
+
+  const redactPick = await vscode.window.showQuickPick([
+    { label: 'Export as recorded', redact: false },
+    { label: 'Redact', description: 'Apply the devActivityTracker.privacy.export policy', redact: true }
+  ], { title: 'Export Activity Data (4/4): Privacy' });
+  if (!redactPick) return undefined;
+  options.redact = redactPick.redact;
+
+  return options;
+}
+
+async function pickExportRange(): Promise<{ startTime?: number; endTime?: number } | undefined> {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  const startOfToday = new Date().setHours(0, 0, 0, 0);
+
+  const pick = await vscode.window.showQuickPick([
+    { label: 'Last 7 days', startTime: startOfToday - 6 * DAY_MS },
+    { label: 'Last 30 days', startTime: startOfToday - 29 * DAY_MS },
+    { label: 'Last 90 days', startTime: startOfToday - 89 * DAY_MS },
+    { label: 'This year', startTime: new Date(new Date().getFullYear(), 0, 1).getTime() },
+    { label: 'All time', startTime: undefined },
+    { label: 'Custom range…', custom: true, startTime: undefined }
+  ], { title: 'Export Activity Data (2/4): Date range' });
+  if (!pick) return undefined;
+  if (!('custom' in pick)) return { startTime: pick.startTime };
+
+  const validateDate = (value: string) =>
+    /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(`${value}T00:00:00`).getTime()) ? undefined : 'Enter a date as YYYY-MM-DD';
+
+  const start = await vscode.window.showInputBox({ title: 'Export from (inclusive)', placeHolder: 'YYYY-MM-DD', validateInput: validateDate });
+  if (!start) return undefined;
+  const end = await vscode.window.showInputBox({ title: 'Export until (inclusive)', placeHolder: 'YYYY-MM-DD', validateInput: validateDate });
+  if (!end) return undefined;
+
+  // Dates are local days, matching how they are shown in the stats view
+  return {
+    startTime: new Date(`${start}T00:00:00`).getTime(),
+    endTime: new Date(`${end}T00:00:00`).getTime() + DAY_MS - 1
+  };
+}
+
+/**
+ * Multi-select where picking nothing means "all"; undefined when cancelled
+ */
+async function pickFilterValues(title: string, values: string[]): Promise<string[] | undefined> {
+  if (values.length === 0) return [];
+
+  const picked = await vscode.window.showQuickPick(values.map(value => ({ label: value })), {
+    title,
+    placeHolder: 'Select values to include, or press Enter to include all',
+    canPickMany: true
+  });
+  return picked?.map(item => item.label);
+}
+
+async function importActivityData() {
+  try {
+    const uris = await vscode.window.showOpenDialog({
+      canSelectMany: false,
+      openLabel: 'Import',
       filters: {
-        'JSON files': ['json'],
-        'CSV files': ['csv']
+        'Activity exports': ['json', 'csv', 'ndjson'],
+        'WakaTime exports': ['json']
       }
     });
+    if (!uris || uris.length === 0) return;
 
-    if (uri) {
-      const format = uri.path.endsWith('.csv') ? 'csv' : 'json';
-      await dataManager.exportData(uri, format);
-      
+    const imported = await dataManager.readImport(uris[0]);
+    const preview = await dataManager.previewImport(imported);
+
+    if (preview.newEvents === 0) {
       vscode.window.showInformationMessage(
-        `✅ Activity data exported to ${uri.fsPath}`,
-        'Open File'
-      ).then(selection => {
-        if (selection === 'Open File') {
-          vscode.commands.executeCommand('vscode.open', uri);
-        }
-      });
+        `Nothing to import: all ${preview.duplicates} events in this file are already recorded`
+      );
+      return;
     }
+
+    const formatDate = (time?: number) => time !== undefined ? new Date(time).toLocaleDateString() : '-';
+    const formatName = {
+      json: 'activity export (JSON)',
+      csv: 'activity export (CSV)',
+      ndjson: 'activity export (NDJSON)',
+      wakatime: 'WakaTime export'
+    }[imported.format];
+    const details = [
+      `Format: ${formatName}`,
+      `Date range: ${formatDate(preview.startTime)} – ${formatDate(preview.endTime)}`,
+      `New events: ${preview.newEvents}`,
+      `Already recorded: ${preview.duplicates}`,
+      `New sessions: ${preview.newSessions}`,
+      ...(imported.skipped > 0 ? [`Unreadable records skipped: ${imported.skipped}`] : [])
+    ];
+
+    const confirmation = await vscode.window.showInformationMessage(
+      `Import ${preview.newEvents} events from ${uris[0].fsPath}?`,
+      { detail: details.join('\n'), modal: true },
+      'Import'
+    );
+    if (confirmation !== 'Import') return;
+
+    const result = await dataManager.importData(imported);
+    vscode.window.showInformationMessage(
+      `✅ Imported ${result.newEvents} events and ${result.newSessions} sessions`
+    );
   } catch (error) {
-    vscode.window.showErrorMessage(`❌ Failed to export data: ${error}`);
+    vscode.window.showErrorMessage(`❌ Failed to import data: ${error}`);
   }
 }
 
@@ -535,7 +817,9 @@ async function clearActivityData() {
 
   if (confirmation === 'Yes, Clear Data') {
     try {
-      dataManager.clearData();
+      // Keep a way back, as clearing can't be undone otherwise
+      await backupManager.backup('before-clear');
+      await dataManager.clearData();
       vscode.window.showInformationMessage('✅ Activity data cleared successfully');
     } catch (error) {
       vscode.window.showErrorMessage(`❌ Failed to clear data: ${error}`);
@@ -543,6 +827,94 @@ async function clearActivityData() {
   }
 }
 
+async function restoreFromBackup() {
+  try {
+    const backups = await backupManager.listBackups();
+    const items: Array<vscode.QuickPickItem & { uri?: vscode.Uri }> = [
+      ...backups.map(backup => ({
+        label: new Date(backup.createdAt).toLocaleString(),
+        description: `${(backup.size / 1024).toFixed(0)} KB${backup.reason ? ` · ${backup.reason.replace(/-/g, ' ')}` : ''}`,
+        uri: backup.uri
+      })),
+      { label: '$(folder-opened) Browse…', description: 'Pick a backup file from another folder' }
+    ];
+
+    const pick = await vscode.window.showQuickPick(items, {
+      title: 'Restore Activity Data from Backup',
+      placeHolder: backups.length > 0 ? `Backups in ${backupManager.getFolder()}` : `No backups in ${backupManager.getFolder()} yet`
+    });
+    if (!pick) return;
+
+    let uri = pick.uri;
+    if (!uri) {
+      const picked = await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        filters: { 'Activity backups': ['gz', 'enc'] }
+      });
+      uri = picked?.[0];
+    }
+    if (!uri) return;
+
+    const snapshot = await backupManager.readBackup(uri);
+    const mode = await vscode.window.showWarningMessage(
+      `Restore the backup from ${new Date(snapshot.createdAt).toLocaleString()}?`,
+      {
+        detail: `It holds ${snapshot.events.length} events and ${snapshot.sessions.length} sessions. ` +
+          'Merging keeps everything recorded since; replacing discards current data (a backup of it is taken first).',
+        modal: true
+      },
+      'Merge',
+      'Replace'
+    );
+    if (!mode) return;
+
+    if (mode === 'Replace') {
+      await backupManager.backup('before-restore');
+    }
+    const result = await dataManager.restoreSnapshot(snapshot, mode === 'Replace');
+    vscode.window.showInformationMessage(
+      `✅ Restored ${result.newEvents} events and ${result.newSessions} sessions from backup`
+    );
+  } catch (error) {
+    vscode.window.showErrorMessage(`❌ Failed to restore backup: ${error}`);
+  }
+}
+
+async function rotateEncryptionKey() {
+  if (!dataCipher.isEnabled()) {
+    const choice = await vscode.window.showWarningMessage(
+      'Local activity data is not encrypted.',
+      'Enable Encryption'
+    );
+    if (choice === 'Enable Encryption') {
+      // Changing the setting encrypts the stored data with a new key
+      const config = vscode.workspace.getConfiguration('devActivityTracker');
+      await config.update('encryptLocalData', true, vscode.ConfigurationTarget.Global);
+    }
+    return;
+  }
+
+  try {
+    await vscode.window.withProgress({
+      location: vscode.ProgressLocation.Notification,
+      title: 'Rotating encryption key'
+    }, async progress => {
+      await dataCipher.rotateKey();
+      progress.report({ message: 'Re-encrypting activity data…' });
+      await dataManager.rewriteStorage();
+      progress.report({ message: 'Re-encrypting backups…' });
+      await backupManager.rewriteBackups();
+      // Old keys go only once nothing uses them; lines other windows haven't
+      // compacted yet keep theirs until a later rotation
+      const inUse = new Set([...await dataManager.getKeyIdsInUse(), ...await backupManager.getKeyIdsInUse()]);
+      await dataCipher.retireUnusedKeys(inUse);
+    });
+    vscode.window.showInformationMessage('✅ Activity data re-encrypted with a new key');
+  } catch (error) {
+    vscode.window.showErrorMessage(`❌ Failed to rotate encryption key: ${error}`);
+  }
+}
+
 async function toggleTracking() {
   const config = vscode.workspace.getConfiguration('devActivityTracker');
   const currentState = config.get<boolean>('enableTracking', true);
@@ -563,10 +935,11 @@ async function syncWithCodeFlow() {
     
     if (!isConnected) {
       const authToken = await vscode.window.showInputBox({
-        prompt: 'Enter your CodeFlow session token',
+        prompt: 'Enter a CodeFlow access token (create one under Settings in the CodeFlow dashboard)',
         password: true,
         ignoreFocusOut: true,
-        placeHolder: 'Paste session token here'
+        placeHolder: 'cf_pat_...',
+        validateInput: value => value.trim().startsWith('cf_pat_') ? undefined : 'CodeFlow access tokens start with cf_pat_'
       });
       
       if (!authToken) {
@@ -574,18 +947,32 @@ async function syncWithCodeFlow() {
         return;
       }
       
-      apiClient.setSessionToken(authToken);
+      await apiClient.setApiToken(authToken.trim());
+      if (!await apiClient.testConnection()) {
+        await apiClient.clearApiToken();
+        vscode.window.showErrorMessage('Couldn\'t verify the access token. Check that CodeFlow is reachable and the token has the activity:write scope and hasn\'t expired or been revoked.');
+        return;
+      }
     }
     
     const config = vscode.workspace.getConfiguration('devActivityTracker');
     await config.update('enableSync', true, vscode.ConfigurationTarget.Global);
     
-    const result = await dataManager.syncDataWithAPI();
+    // Retry right away, even while a previous failure is backing off
+    const result = await dataManager.syncDataWithAPI(true);
     
-    if (result.success) {
-      vscode.window.showInformationMessage('Successfully synced with CodeFlow!');
+    if (result.success && (result.failed || result.rejected || result.orphaned)) {
+      const problems = [
+        result.failed ? `${result.failed} will be retried` : '',
+        result.rejected ? `${result.rejected} were invalid and dropped` : '',
+        result.orphaned ? `${result.orphaned} were dropped because CodeFlow never received their session` : ''
+      ].filter(Boolean).join(', ');
+      vscode.window.showWarningMessage(`Synced ${result.synced} events with CodeFlow; ${problems}`);
+    } else if (result.success) {
+      vscode.window.showInformationMessage(`Successfully synced ${result.synced || 0} events with CodeFlow!`);
     } else {
-      vscode.window.showErrorMessage(`Sync failed: ${result.error || 'Unknown error'}`);
+      const retry = result.nextAttemptAt ? ` Retrying at ${new Date(result.nextAttemptAt).toLocaleTimeString()}.` : '';
+      vscode.window.showErrorMessage(`Sync failed: ${result.error || result.message || 'Unknown error'}.${retry}`);
     }
   } catch (error) {
     vscode.window.showErrorMessage(`Sync error: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -0,0 +1,82 @@
+import * as fs from 'fs/promises';
+
+const RETRY_DELAY = 50;
+const ACQUIRE_TIMEOUT = 10 * 1000;
+// A lock older than this was left behind by a window that crashed while holding it
+const STALE_LOCK_AGE = 30 * 1000;
+// Held locks are touched this often, so long operations never look stale
+const REFRESH_INTERVAL = STALE_LOCK_AGE / 3;
+
+export class LockTimeoutError extends Error {
+  constructor(lockPath: string) {
+    super(`Timed out waiting for lock ${lockPath}`);
+    this.name = 'LockTimeoutError';
+  }
+}
+
+export interface FileLockOptions {
+  // How long to wait for another window to release the lock; 0 gives up right away
+  acquireTimeout?: number;
+}
+
+/**
+ * Run `operation` while holding an exclusive lock file, so that several VS Code
+ * windows sharing the same global storage never write the same files at once.
+ */
+export async function withFileLock<T>(
+  lockPath: string,
+  operation: () => Promise<T>,
+  options: FileLockOptions = {}
+): Promise<T> {
+  await acquireLock(lockPath, options.acquireTimeout ?? ACQUIRE_TIMEOUT);
+  const refreshTimer = setInterval(() => {
+    const now = new Date();
+    fs.utimes(lockPath, now, now).catch(error => {
+      console.error(`Failed to refresh lock ${lockPath}:`, error);
+    });
+  }, REFRESH_INTERVAL);
+
+  try {
+    return await operation();
+  } finally {
+    clearInterval(refreshTimer);
+    await fs.rm(lockPath, { force: true }).catch(error => {
+      console.error(`Failed to release lock ${lockPath}:`, error);
+    });
+  }
+}
+
+async function acquireLock(lockPath: string, timeout: number): Promise<void> {
+  const deadline = Date.now() + timeout;
+
+  while (true) {
+    try {
+      const handle = await fs.open(lockPath, 'wx');
+      await handle.writeFile(String(process.pid));
+      await handle.close();
+      return;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    }
+
+    if (await isStale(lockPath)) {
+      await fs.rm(lockPath, { force: true });
+      continue;
+    }
+
+    if (Date.now() > deadline) {
+      throw new LockTimeoutError(lockPath);
+    }
+    await new Promise(resolve => setTimeout(resolve, RETRY_DELAY));
+  }
+}
+
+async function isStale(lockPath: string): Promise<boolean> {
+  try {
+    const stats = await fs.stat(lockPath);
+    return Date.now() - stats.mtimeMs > STALE_LOCK_AGE;
+  } catch {
+    // Released in the meantime
+    return false;
+  }
+}
@@ -0,0 +1,78 @@
+import { Uri, Event } from 'vscode';
+
+/**
+ * Subset of the API exported by the built-in `vscode.git` extension
+ * (see extensions/git/src/api/git.d.ts in the VS Code repository).
+ * Only the members used by the tracker are declared here.
+ */
+
+export interface GitExtension {
+  readonly enabled: boolean;
+  readonly onDidChangeEnablement: Event<boolean>;
+  getAPI(version: 1): GitAPI;
+}
+
+export type APIState = 'uninitialized' | 'initialized';
+
+export interface GitAPI {
+  readonly state: APIState;
+  readonly onDidChangeState: Event<APIState>;
+  readonly repositories: Repository[];
+  readonly onDidOpenRepository: Event<Repository>;
+  readonly onDidCloseRepository: Event<Repository>;
+}
+
+export interface Ref {
+  readonly type: number;
+  readonly name?: string;
+  readonly commit?: string;
+  readonly remote?: string;
+}
+
+export interface UpstreamRef {
+  readonly remote: string;
+  readonly name: string;
+  readonly commit?: string;
+}
+
+export interface Branch extends Ref {
+  readonly upstream?: UpstreamRef;
+  readonly ahead?: number;
+  readonly behind?: number;
+}
+
+export interface Commit {
+  readonly hash: string;
+  readonly message: string;
+  readonly parents: string[];
+  readonly authorDate?: Date;
+  readonly authorName?: string;
+  readonly authorEmail?: string;
+}
+
+export interface Change {
+  readonly uri: Uri;
+  readonly originalUri: Uri;
+  readonly renameUri: Uri | undefined;
+  readonly status: number;
+}
+
+export interface RepositoryState {
+  readonly HEAD: Branch | undefined;
+  readonly mergeChanges: Change[];
+  readonly onDidChange: Event<void>;
+}
+
+export interface LogOptions {
+  readonly maxEntries?: number;
+  readonly path?: string;
+  readonly range?: string;
+}
+
+export interface Repository {
+  readonly rootUri: Uri;
+  readonly state: RepositoryState;
+  getCommit(ref: string): Promise<Commit>;
+  log(options?: LogOptions): Promise<Commit[]>;
+  diffBetween(ref1: string, ref2: string): Promise<Change[]>;
+}
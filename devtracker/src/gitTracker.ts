@@ -0,0 +1,301 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ActivityType, GitActivityData } from './types';
+import { GitExtension, GitAPI, Repository, Commit } from './git';
+
+interface RepositorySnapshot {
+  branch?: string;
+  commit?: string;
+  ahead: number;
+  behind: number;
+  // Remote branch HEAD tracks, and its commit as last fetched
+  upstream?: string;
+  upstreamCommit?: string;
+}
+
+type GitEventCallback = (type: ActivityType, data: GitActivityData, resource?: vscode.Uri) => void;
+
+/**
+ * Watches repositories exposed by the built-in `vscode.git` extension and
+ * turns HEAD / upstream changes into commit, push, pull, checkout and merge events.
+ */
+export class GitTracker implements vscode.Disposable {
+  private disposables: vscode.Disposable[] = [];
+  private repositoryListeners = new Map<Repository, vscode.Disposable>();
+  private snapshots = new Map<Repository, RepositorySnapshot>();
+  private pending = new Map<Repository, Promise<void>>();
+  private api: GitAPI | null = null;
+
+  constructor(private onGitEvent: GitEventCallback) {
+    this.initialize();
+  }
+
+  /**
+   * True once the git extension API has been acquired
+   */
+  public get isAvailable(): boolean {
+    return this.api !== null;
+  }
+
+  /**
+   * Current branch of the innermost repository containing the resource
+   */
+  public getBranch(resource: vscode.Uri): string | undefined {
+    let match: Repository | undefined;
+    for (const repository of this.snapshots.keys()) {
+      const root = repository.rootUri.fsPath;
+      const contains = resource.fsPath === root || resource.fsPath.startsWith(root + path.sep);
+      if (contains && (!match || root.length > match.rootUri.fsPath.length)) {
+        match = repository;
+      }
+    }
+    return match ? this.snapshots.get(match)?.branch : undefined;
+  }
+
+  private async initialize(): Promise<void> {
+    try {
+      const extension = vscode.extensions.getExtension<GitExtension>('vscode.git');
+      if (!extension) {
+        return;
+      }
+
+      const gitExtension = extension.isActive ? extension.exports : await extension.activate();
+      if (!gitExtension || !gitExtension.enabled) {
+        return;
+      }
+
+      const api = gitExtension.getAPI(1);
+      this.api = api;
+
+      if (api.state === 'initialized') {
+        this.watchRepositories(api);
+      } else {
+        const stateListener = api.onDidChangeState(state => {
+          if (state === 'initialized') {
+            this.watchRepositories(api);
+            stateListener.dispose();
+          }
+        });
+        this.disposables.push(stateListener);
+      }
+    } catch (error) {
+      console.error('Failed to initialize git tracking:', error);
+    }
+  }
+
+  private watchRepositories(api: GitAPI): void {
+    api.repositories.forEach(repository => this.watchRepository(repository));
+
+    this.disposables.push(
+      api.onDidOpenRepository(repository => this.watchRepository(repository)),
+      api.onDidCloseRepository(repository => this.unwatchRepository(repository))
+    );
+  }
+
+  private watchRepository(repository: Repository): void {
+    if (this.repositoryListeners.has(repository)) {
+      return;
+    }
+
+    this.snapshots.set(repository, this.takeSnapshot(repository));
+    this.repositoryListeners.set(
+      repository,
+      repository.state.onDidChange(() => this.enqueueStateChange(repository))
+    );
+  }
+
+  private unwatchRepository(repository: Repository): void {
+    this.repositoryListeners.get(repository)?.dispose();
+    this.repositoryListeners.delete(repository);
+    this.snapshots.delete(repository);
+    this.pending.delete(repository);
+  }
+
+  private takeSnapshot(repository: Repository): RepositorySnapshot {
+    const head = repository.state.HEAD;
+    return {
+      branch: head?.name,
+      commit: head?.commit,
+      ahead: head?.ahead ?? 0,
+      behind: head?.behind ?? 0,
+      upstream: head?.upstream ? `${head.upstream.remote}/${head.upstream.name}` : undefined,
+      upstreamCommit: head?.upstream?.commit
+    };
+  }
+
+  // State changes are processed one at a time per repository so that
+  // snapshots are always compared in the order git reported them
+  private enqueueStateChange(repository: Repository): void {
+    const previous = this.pending.get(repository) ?? Promise.resolve();
+    const next = previous
+      .then(() => this.onStateChange(repository))
+      .catch(error => console.error('Failed to process git state change:', error));
+    this.pending.set(repository, next);
+  }
+
+  private async onStateChange(repository: Repository): Promise<void> {
+    const previous = this.snapshots.get(repository);
+    const current = this.takeSnapshot(repository);
+    this.snapshots.set(repository, current);
+
+    if (!previous) {
+      return;
+    }
+
+    if (previous.branch !== current.branch) {
+      this.emit(ActivityType.GIT_CHECKOUT, repository, current, {
+        previousBranch: previous.branch,
+        commitMessage: await this.getCommitSubject(repository, current.commit),
+        filesChanged: previous.commit && current.commit
+          ? await this.countChangedFiles(repository, previous.commit, current.commit)
+          : 0
+      });
+      return;
+    }
+
+    if (current.commit && previous.commit !== current.commit) {
+      await this.onHeadMoved(repository, previous, current);
+      return;
+    }
+
+    if (current.ahead < previous.ahead) {
+      const commitCount = previous.ahead - current.ahead;
+      this.emit(ActivityType.GIT_PUSH, repository, current, {
+        commitCount,
+        commitMessage: await this.getCommitSubject(repository, current.commit),
+        filesChanged: current.commit
+          ? await this.countChangedFiles(repository, `${current.commit}~${commitCount}`, current.commit)
+          : undefined
+      });
+    } else if (!previous.upstream && current.upstream && current.ahead === 0) {
+      // First push of a branch that had no upstream; how many commits were new to the remote is unknown
+      this.emit(ActivityType.GIT_PUSH, repository, current, {
+        commitMessage: await this.getCommitSubject(repository, current.commit)
+      });
+    }
+  }
+
+  private async onHeadMoved(
+    repository: Repository,
+    previous: RepositorySnapshot,
+    current: RepositorySnapshot
+  ): Promise<void> {
+    const commit = await this.getCommit(repository, current.commit!);
+    const baseData: GitActivityData = {
+      commitHash: current.commit,
+      commitMessage: commit ? this.getSubject(commit) : undefined
+    };
+
+    if (this.isPull(previous, current)) {
+      this.emit(ActivityType.GIT_PULL, repository, current, {
+        ...baseData,
+        commitCount: current.behind < previous.behind
+          ? previous.behind - current.behind
+          : await this.countCommits(repository, previous.commit, current.commit!),
+        filesChanged: previous.commit
+          ? await this.countChangedFiles(repository, previous.commit, current.commit!)
+          : undefined
+      });
+      return;
+    }
+
+    if (!commit || commit.parents.length === 0) {
+      return;
+    }
+
+    if (commit.parents.length > 1) {
+      this.emit(ActivityType.GIT_MERGE, repository, current, {
+        ...baseData,
+        filesChanged: await this.countChangedFiles(repository, commit.parents[0], commit.hash)
+      });
+      return;
+    }
+
+    if (commit.parents[0] === previous.commit) {
+      this.emit(ActivityType.GIT_COMMIT, repository, current, {
+        ...baseData,
+        filesChanged: await this.countChangedFiles(repository, commit.parents[0], commit.hash)
+      });
+    }
+  }
+
+  /**
+   * HEAD caught up with its upstream: it is less behind, or moved onto the
+   * upstream commit without local commits on top. A pull that fetches and
+   * merges in one go leaves `behind` at zero throughout.
+   */
+  private isPull(previous: RepositorySnapshot, current: RepositorySnapshot): boolean {
+    if (current.behind < previous.behind) return true;
+    if (!current.commit || current.ahead !== 0) return false;
+
+    const mergedFetched = current.commit === previous.upstreamCommit && previous.ahead === 0;
+    const fetchedAndMerged = current.commit === current.upstreamCommit && current.upstreamCommit !== previous.upstreamCommit;
+    return mergedFetched || fetchedAndMerged;
+  }
+
+  private async countCommits(repository: Repository, from: string | undefined, to: string): Promise<number | undefined> {
+    if (!from) {
+      return undefined;
+    }
+    try {
+      return (await repository.log({ range: `${from}..${to}` })).length;
+    } catch (error) {
+      // The base ref may not exist locally (shallow clone, rewritten history)
+      return undefined;
+    }
+  }
+
+  private async getCommit(repository: Repository, ref: string): Promise<Commit | undefined> {
+    try {
+      return await repository.getCommit(ref);
+    } catch (error) {
+      console.error('Failed to read git commit:', error);
+      return undefined;
+    }
+  }
+
+  private async getCommitSubject(repository: Repository, ref: string | undefined): Promise<string | undefined> {
+    if (!ref) {
+      return undefined;
+    }
+    const commit = await this.getCommit(repository, ref);
+    return commit ? this.getSubject(commit) : undefined;
+  }
+
+  private async countChangedFiles(repository: Repository, from: string, to: string): Promise<number | undefined> {
+    try {
+      const changes = await repository.diffBetween(from, to);
+      return changes.length;
+    } catch (error) {
+      // The base ref may not exist locally (shallow clone, rewritten history)
+      return undefined;
+    }
+  }
+
+  private getSubject(commit: Commit): string {
+    return commit.message.split('\n')[0];
+  }
+
+  private emit(
+    type: ActivityType,
+    repository: Repository,
+    snapshot: RepositorySnapshot,
+    data: GitActivityData
+  ): void {
+    this.onGitEvent(type, {
+      repository: path.basename(repository.rootUri.fsPath),
+      branch: snapshot.branch,
+      commitHash: snapshot.commit,
+      ...data
+    }, repository.rootUri);
+  }
+
+  public dispose(): void {
+    this.repositoryListeners.forEach(listener => listener.dispose());
+    this.repositoryListeners.clear();
+    this.snapshots.clear();
+    this.pending.clear();
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+  }
+}
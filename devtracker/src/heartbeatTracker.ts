@@ -0,0 +1,134 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ActivityType, HeartbeatData } from './types';
+
+type HeartbeatCallback = (type: ActivityType, data: HeartbeatData, resource?: vscode.Uri) => void;
+type BranchResolver = (resource: vscode.Uri) => string | undefined;
+
+/**
+ * Emits a heartbeat for the active file whenever the user interacts with the
+ * editor, at most once per interval unless the file changes or is saved, and
+ * once per interval while the window is focused and the user isn't idle.
+ * The heartbeats feed the time per project, file, language and branch in the rollups.
+ */
+export class HeartbeatTracker implements vscode.Disposable {
+  private disposables: vscode.Disposable[] = [];
+  private lastHeartbeatTime = 0;
+  private lastHeartbeatFile: string | undefined;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private focused = vscode.window.state.focused;
+
+  constructor(
+    private onHeartbeat: HeartbeatCallback,
+    private getBranch: BranchResolver,
+    private isIdle: () => boolean
+  ) {
+    this.disposables.push(
+      vscode.window.onDidChangeWindowState(state => {
+        this.focused = state.focused;
+        if (state.focused) {
+          this.scheduleHeartbeat();
+        } else {
+          this.clearHeartbeatTimer();
+        }
+      }),
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('devActivityTracker.heartbeatIntervalSeconds') && this.heartbeatTimer) {
+          this.scheduleHeartbeat();
+        }
+      }),
+      vscode.window.onDidChangeActiveTextEditor(editor => {
+        if (editor) this.onActivity(editor.document);
+      }),
+      vscode.window.onDidChangeTextEditorSelection(event => this.onActivity(event.textEditor.document)),
+      vscode.window.onDidChangeTextEditorVisibleRanges(event => this.onActivity(event.textEditor.document)),
+      vscode.workspace.onDidChangeTextDocument(event => {
+        if (event.document === vscode.window.activeTextEditor?.document) {
+          this.onActivity(event.document);
+        }
+      }),
+      vscode.workspace.onDidSaveTextDocument(document => this.onActivity(document, true))
+    );
+
+    if (this.focused) {
+      this.scheduleHeartbeat();
+    }
+  }
+
+  private getInterval(): number {
+    const config = vscode.workspace.getConfiguration('devActivityTracker');
+    return config.get<number>('heartbeatIntervalSeconds', 30) * 1000;
+  }
+
+  private onActivity(document: vscode.TextDocument, isWrite = false): void {
+    try {
+      if (document.uri.scheme !== 'file' && document.uri.scheme !== 'untitled') {
+        return;
+      }
+
+      const now = Date.now();
+      const filePath = document.uri.fsPath;
+      const intervalElapsed = now - this.lastHeartbeatTime >= this.getInterval();
+
+      if (!isWrite && !intervalElapsed && filePath === this.lastHeartbeatFile) {
+        return;
+      }
+
+      this.lastHeartbeatTime = now;
+      this.lastHeartbeatFile = filePath;
+
+      const editor = vscode.window.activeTextEditor;
+      this.onHeartbeat(ActivityType.HEARTBEAT, {
+        fileName: path.basename(filePath),
+        filePath,
+        language: document.languageId,
+        lineCount: document.lineCount,
+        branch: this.getBranch(document.uri),
+        isWrite,
+        cursorLine: editor?.document === document ? editor.selection.active.line : undefined
+      }, document.uri);
+
+      if (this.focused) {
+        this.scheduleHeartbeat();
+      }
+    } catch (error) {
+      console.error('Failed to emit heartbeat:', error);
+    }
+  }
+
+  // The next periodic heartbeat is due an interval after the last one of any kind
+  private scheduleHeartbeat(): void {
+    this.clearHeartbeatTimer();
+
+    const interval = this.getInterval();
+    const remaining = this.lastHeartbeatTime + interval - Date.now();
+    this.heartbeatTimer = setTimeout(() => this.onHeartbeatDue(), remaining > 0 ? remaining : interval);
+  }
+
+  private onHeartbeatDue(): void {
+    this.heartbeatTimer = null;
+    // Stops while idle; the input that ends it emits a heartbeat, which starts the timer again
+    if (!this.focused || this.isIdle()) return;
+
+    const document = vscode.window.activeTextEditor?.document;
+    if (document) {
+      this.onActivity(document);
+    }
+    if (!this.heartbeatTimer) {
+      this.scheduleHeartbeat();
+    }
+  }
+
+  private clearHeartbeatTimer(): void {
+    if (this.heartbeatTimer) {
+      clearTimeout(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  public dispose(): void {
+    this.clearHeartbeatTimer();
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+  }
+}
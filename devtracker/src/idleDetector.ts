@@ -0,0 +1,120 @@
+import * as vscode from 'vscode';
+import { ActivityType, IdleActivityData } from './types';
+
+type IdleEventCallback = (type: ActivityType, data: IdleActivityData) => void;
+
+/**
+ * Detects AFK periods from editor and terminal input. After the configured
+ * timeout without input an IDLE_START is emitted; the next input emits IDLE_END.
+ */
+export class IdleDetector implements vscode.Disposable {
+  private disposables: vscode.Disposable[] = [];
+  private idleTimer: NodeJS.Timeout | null = null;
+  private lastActivity = Date.now();
+  private idleSince: number | null = null;
+  private focused = vscode.window.state.focused;
+
+  constructor(private onIdleEvent: IdleEventCallback) {
+    const onActivity = () => this.onActivity();
+
+    this.disposables.push(
+      vscode.window.onDidChangeTextEditorSelection(onActivity),
+      vscode.window.onDidChangeTextEditorVisibleRanges(onActivity),
+      vscode.window.onDidChangeActiveTextEditor(onActivity),
+      vscode.workspace.onDidChangeTextDocument(event => {
+        if (event.contentChanges.length > 0) onActivity();
+      }),
+      vscode.window.onDidChangeActiveTerminal(onActivity),
+      vscode.window.onDidChangeTerminalState(onActivity),
+      vscode.window.onDidStartTerminalShellExecution(onActivity),
+      vscode.window.onDidEndTerminalShellExecution(onActivity),
+      vscode.window.onDidChangeWindowState(this.onWindowStateChange.bind(this)),
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('devActivityTracker.idleTimeoutMinutes')) {
+          this.scheduleIdleCheck();
+        }
+      })
+    );
+
+    if (this.focused) {
+      this.scheduleIdleCheck();
+    }
+  }
+
+  /**
+   * True while the user is considered away from the keyboard
+   */
+  public get isIdle(): boolean {
+    return this.idleSince !== null;
+  }
+
+  private getIdleTimeout(): number {
+    const config = vscode.workspace.getConfiguration('devActivityTracker');
+    return config.get<number>('idleTimeoutMinutes', 5) * 60 * 1000;
+  }
+
+  private onActivity(): void {
+    this.lastActivity = Date.now();
+
+    if (this.idleSince !== null) {
+      const idleSince = this.idleSince;
+      this.idleSince = null;
+      this.onIdleEvent(ActivityType.IDLE_END, {
+        idleSince,
+        idleDuration: this.lastActivity - idleSince
+      });
+    }
+
+    if (this.focused) {
+      this.scheduleIdleCheck();
+    }
+  }
+
+  private onWindowStateChange(windowState: vscode.WindowState): void {
+    this.focused = windowState.focused;
+
+    // Input in other applications is invisible to us, so idleness is only
+    // measured while the window has focus; focus loss is tracked separately
+    if (windowState.focused) {
+      this.onActivity();
+    } else {
+      this.clearIdleTimer();
+    }
+  }
+
+  private scheduleIdleCheck(): void {
+    this.clearIdleTimer();
+
+    const remaining = Math.max(0, this.lastActivity + this.getIdleTimeout() - Date.now());
+    this.idleTimer = setTimeout(() => this.checkIdle(), remaining);
+  }
+
+  private checkIdle(): void {
+    this.idleTimer = null;
+    if (this.idleSince !== null || !this.focused) return;
+
+    if (Date.now() - this.lastActivity < this.getIdleTimeout()) {
+      this.scheduleIdleCheck();
+      return;
+    }
+
+    this.idleSince = this.lastActivity;
+    this.onIdleEvent(ActivityType.IDLE_START, {
+      idleSince: this.idleSince,
+      reason: 'input_timeout'
+    });
+  }
+
+  private clearIdleTimer(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+
+  public dispose(): void {
+    this.clearIdleTimer();
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+  }
+}
@@ -0,0 +1,287 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { ActivityData, ActivityEvent, ActivityType, HeartbeatData, SessionData } from './types';
+
+export type ImportFormat = 'json' | 'csv' | 'ndjson' | 'wakatime';
+
+export interface ImportedActivity {
+  format: ImportFormat;
+  events: ActivityEvent[];
+  sessions: SessionData[];
+  // Records that could not be turned into events
+  skipped: number;
+}
+
+export interface ImportSummary {
+  // Events not stored yet, and those skipped because they already are
+  newEvents: number;
+  duplicates: number;
+  newSessions: number;
+  startTime?: number;
+  endTime?: number;
+}
+
+interface WakaTimeHeartbeat {
+  id?: string;
+  time: number;
+  entity?: string;
+  type?: string;
+  category?: string;
+  project?: string;
+  language?: string;
+  branch?: string;
+  is_write?: boolean;
+  lineno?: number;
+}
+
+const ACTIVITY_TYPES = new Set<string>(Object.values(ActivityType));
+
+// WakaTime language names that differ from VS Code language IDs by more than case
+const WAKATIME_LANGUAGES: Record<string, string> = {
+  'c#': 'csharp',
+  'c++': 'cpp',
+  'f#': 'fsharp',
+  'bash': 'shellscript',
+  'shell script': 'shellscript',
+  'objective-c': 'objective-c',
+  'vue.js': 'vue',
+  'jsx': 'javascriptreact',
+  'tsx': 'typescriptreact',
+  'text': 'plaintext'
+};
+
+/**
+ * Reads files written by the export command (JSON or CSV) and WakaTime's JSON
+ * data dump into activity events, ready to be merged into the local store.
+ */
+export class ActivityImporter {
+  constructor(private idleTimeout: number) {}
+
+  public async read(uri: vscode.Uri): Promise<ImportedActivity> {
+    const content = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+
+    const extension = path.extname(uri.fsPath).toLowerCase();
+    if (extension === '.csv') {
+      return this.parseCsv(content);
+    }
+    if (extension === '.ndjson') {
+      return this.parseNdjson(content);
+    }
+
+    const data = JSON.parse(content);
+    if (Array.isArray(data.events)) {
+      return this.parseExport(data);
+    }
+    if (Array.isArray(data.days) || Array.isArray(data.heartbeats)) {
+      return this.parseWakaTime(data);
+    }
+    throw new Error('Unrecognized file: expected an activity export or a WakaTime data dump');
+  }
+
+  private parseExport(data: { events: unknown[]; sessions?: unknown[] }): ImportedActivity {
+    const events = data.events.filter((event): event is ActivityEvent => this.isValidEvent(event));
+    const sessions = (data.sessions || []).filter((session): session is SessionData =>
+      !!session && typeof (session as SessionData).id === 'string' && typeof (session as SessionData).startTime === 'number'
+    );
+
+    return {
+      format: 'json',
+      events,
+      sessions,
+      skipped: data.events.length - events.length
+    };
+  }
+
+  private parseNdjson(content: string): ImportedActivity {
+    const lines = content.split('\n').filter(line => line.trim());
+    const events: ActivityEvent[] = [];
+    lines.forEach(line => {
+      try {
+        const event = JSON.parse(line);
+        if (this.isValidEvent(event)) events.push(event);
+      } catch {
+        // Counted as skipped
+      }
+    });
+
+    return { format: 'ndjson', events, sessions: [], skipped: lines.length - events.length };
+  }
+
+  private isValidEvent(event: unknown): boolean {
+    const candidate = event as ActivityEvent;
+    return !!candidate &&
+      typeof candidate.id === 'string' &&
+      typeof candidate.timestamp === 'number' &&
+      typeof candidate.sessionId === 'string' &&
+      ACTIVITY_TYPES.has(candidate.type);
+  }
+
+  private parseCsv(content: string): ImportedActivity {
+    const [header, ...rows] = this.parseCsvRows(content).filter(row => row.some(cell => cell !== ''));
+    if (!header) {
+      return { format: 'csv', events: [], sessions: [], skipped: 0 };
+    }
+
+    const column = (row: string[], name: string) => {
+      const index = header.indexOf(name);
+      return index >= 0 && row[index] !== '' ? row[index] : undefined;
+    };
+
+    const events: ActivityEvent[] = [];
+    rows.forEach(row => {
+      const timestamp = Date.parse(column(row, 'timestamp') || '');
+      const type = column(row, 'type');
+      const sessionId = column(row, 'sessionId');
+      if (isNaN(timestamp) || !type || !ACTIVITY_TYPES.has(type) || !sessionId) return;
+
+      const data = this.readCsvData(header, row);
+      events.push({
+        // Older CSV exports have no event IDs; derive a stable one so re-imports dedupe
+        id: column(row, 'id') || `csv_${this.hash([timestamp, type, data.fileName, sessionId].join('|'))}`,
+        timestamp,
+        type: type as ActivityType,
+        data: data as ActivityData,
+        sessionId,
+        workspaceId: column(row, 'workspaceId'),
+        projectName: column(row, 'projectName'),
+        instanceId: column(row, 'instanceId')
+      });
+    });
+
+    return { format: 'csv', events, sessions: [], skipped: rows.length - events.length };
+  }
+
+  /**
+   * Rebuild event data from flattened `data.<path>` columns. Older exports only
+   * had plain `fileName` and `language` columns.
+   */
+  private readCsvData(header: string[], row: string[]): Record<string, unknown> {
+    const data: Record<string, unknown> = {};
+
+    header.forEach((name, index) => {
+      const value = row[index];
+      if (value === undefined || value === '') return;
+
+      if (name === 'fileName' || name === 'language') {
+        data[name] = value;
+      } else if (name.startsWith('data.')) {
+        const keys = name.split('.').slice(1);
+        let target = data;
+        keys.slice(0, -1).forEach(key => {
+          target = (target[key] ??= {}) as Record<string, unknown>;
+        });
+        target[keys[keys.length - 1]] = this.parseCsvValue(value);
+      }
+    });
+
+    return data;
+  }
+
+  // Numbers, booleans and arrays were written unquoted by JSON rules
+  private parseCsvValue(value: string): unknown {
+    if (/^(-?\d+(\.\d+)?|true|false|\[.*\])$/s.test(value)) {
+      try {
+        return JSON.parse(value);
+      } catch {
+        return value;
+      }
+    }
+    return value;
+  }
+
+  /**
+   * RFC 4180 rows: quoted fields may contain commas, quotes ("") and line breaks
+   */
+  private parseCsvRows(content: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+      if (quoted) {
+        if (char === '"' && content[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ',') {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && content[i + 1] === '\n') i++;
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    row.push(field);
+    rows.push(row);
+    return rows;
+  }
+
+  private parseWakaTime(data: { days?: Array<{ heartbeats?: WakaTimeHeartbeat[] }>; heartbeats?: WakaTimeHeartbeat[] }): ImportedActivity {
+    const heartbeats = [
+      ...(data.heartbeats || []),
+      ...(data.days || []).flatMap(day => day.heartbeats || [])
+    ];
+
+    const valid = heartbeats
+      .filter(heartbeat => typeof heartbeat?.time === 'number')
+      .sort((a, b) => a.time - b.time);
+
+    // WakaTime has no sessions; a gap longer than the idle timeout starts a new one
+    let sessionId = '';
+    let lastTimestamp = 0;
+    const events = valid.map(heartbeat => {
+      const timestamp = Math.round(heartbeat.time * 1000);
+      if (!sessionId || timestamp - lastTimestamp > this.idleTimeout) {
+        sessionId = `wakatime_${timestamp}`;
+      }
+      lastTimestamp = timestamp;
+
+      const isFile = !heartbeat.type || heartbeat.type === 'file';
+      const data: HeartbeatData = {
+        fileName: isFile && heartbeat.entity ? path.basename(heartbeat.entity) : undefined,
+        filePath: isFile ? heartbeat.entity : undefined,
+        language: this.mapLanguage(heartbeat.language),
+        branch: heartbeat.branch,
+        isWrite: heartbeat.is_write,
+        cursorLine: heartbeat.lineno
+      };
+
+      const event: ActivityEvent = {
+        id: `wakatime_${heartbeat.id || this.hash(`${heartbeat.time}|${heartbeat.entity}`)}`,
+        timestamp,
+        type: ActivityType.HEARTBEAT,
+        data: data as ActivityData,
+        sessionId,
+        projectName: heartbeat.project
+      };
+      return event;
+    });
+
+    return { format: 'wakatime', events, sessions: [], skipped: heartbeats.length - valid.length };
+  }
+
+  private mapLanguage(language: string | undefined): string | undefined {
+    if (!language) return undefined;
+    const normalized = language.toLowerCase();
+    return WAKATIME_LANGUAGES[normalized] || normalized.replace(/\s+/g, '');
+  }
+
+  private hash(value: string): string {
+    return crypto.createHash('sha1').update(value).digest('hex').slice(0, 16);
+  }
+}
@@ -0,0 +1,124 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { REDACTABLE_FIELD_KEYS } from '@codeflow/stats-engine';
+import { ActivityEvent, SessionData, RedactableField, RedactionAction, PrivacyPolicy } from './types';
+
+export type PrivacyTarget = 'local' | 'sync' | 'export';
+
+const PATH_FIELDS: RedactableField[] = ['filePath', 'workspaceId'];
+
+// Which data keys each redactable field covers is shared with the server's sync contract
+const KEY_TO_FIELD = new Map<string, RedactableField>();
+(Object.keys(REDACTABLE_FIELD_KEYS) as RedactableField[]).forEach(field => {
+  REDACTABLE_FIELD_KEYS[field].forEach(key => KEY_TO_FIELD.set(key, field));
+});
+
+/**
+ * Applies the configured privacy policy to events before they are stored
+ * locally (`devActivityTracker.privacy.local`), sent to the server
+ * (`devActivityTracker.privacy.sync`) or exported on request
+ * (`devActivityTracker.privacy.export`).
+ */
+export class Redactor {
+  private salt: string;
+
+  constructor(private context: vscode.ExtensionContext) {
+    this.salt = this.loadSalt();
+  }
+
+  private loadSalt(): string {
+    let salt = this.context.globalState.get<string>('privacySalt');
+    if (!salt) {
+      salt = crypto.randomBytes(32).toString('hex');
+      this.context.globalState.update('privacySalt', salt);
+    }
+    return salt;
+  }
+
+  public getPolicy(target: PrivacyTarget): PrivacyPolicy {
+    const config = vscode.workspace.getConfiguration('devActivityTracker');
+    return config.get<PrivacyPolicy>(`privacy.${target}`, {});
+  }
+
+  public redactEvent(event: ActivityEvent, target: PrivacyTarget): ActivityEvent {
+    const policy = this.getPolicy(target);
+    if (this.isKeepAll(policy)) return event;
+
+    return this.redactValue(event, policy, event.workspaceId) as ActivityEvent;
+  }
+
+  public redactSession(session: SessionData, target: PrivacyTarget): SessionData {
+    const policy = this.getPolicy(target);
+    if (this.isKeepAll(policy)) return session;
+
+    return this.redactValue(session, policy, session.workspaceId) as SessionData;
+  }
+
+  private isKeepAll(policy: PrivacyPolicy): boolean {
+    return Object.values(policy).every(action => !action || action === 'keep');
+  }
+
+  private redactValue(value: unknown, policy: PrivacyPolicy, root: string | undefined): unknown {
+    if (Array.isArray(value)) {
+      return value.map(item => this.redactValue(item, policy, root));
+    }
+    if (!value || typeof value !== 'object') {
+      return value;
+    }
+
+    // Nested entries with their own folder (session folder lists) are relative to it
+    const record = value as Record<string, unknown>;
+    const ownRoot = typeof record.workspaceId === 'string' ? record.workspaceId : root;
+    const result: Record<string, unknown> = {};
+
+    for (const [key, child] of Object.entries(record)) {
+      const field = KEY_TO_FIELD.get(key);
+      const action = field ? policy[field] : undefined;
+
+      if (!field || !action || action === 'keep' || child === undefined || child === null) {
+        result[key] = field ? child : this.redactValue(child, policy, ownRoot);
+        continue;
+      }
+
+      if (action === 'drop') continue;
+      result[key] = this.applyAction(field, action, child, ownRoot);
+    }
+
+    return result;
+  }
+
+  private applyAction(field: RedactableField, action: RedactionAction, value: unknown, root: string | undefined): unknown {
+    if (action === 'hash') {
+      return this.hash(typeof value === 'string' ? value : JSON.stringify(value));
+    }
+
+    if (action === 'relative' && PATH_FIELDS.includes(field) && typeof value === 'string') {
+      return this.makeRelative(field, value, root);
+    }
+
+    return value;
+  }
+
+  private makeRelative(field: RedactableField, value: string, root: string | undefined): string {
+    // Values that were already made relative or hashed are left alone
+    if (!path.isAbsolute(value)) return value;
+
+    // A folder relative to itself is best described by its name
+    if (field === 'workspaceId') return path.basename(value);
+
+    if (root && path.isAbsolute(root)) {
+      const relative = path.relative(root, value);
+      if (relative && !relative.startsWith('..') && !path.isAbsolute(relative)) {
+        return relative.split(path.sep).join('/');
+      }
+    }
+
+    // Outside every workspace folder: keep only the file name
+    return path.basename(value);
+  }
+
+  private hash(value: string): string {
+    return crypto.createHmac('sha256', this.salt).update(value).digest('hex').slice(0, 16);
+  }
+}
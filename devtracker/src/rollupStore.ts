@@ -0,0 +1,288 @@
+import * as vscode from 'vscode';
+import {
+  RollupAccumulator,
+  buildInstanceRollups,
+  createRollup,
+  getDayKey,
+  getHistoryDays,
+  getRecentDays,
+  mergeRollups
+} from '@codeflow/stats-engine';
+import { ActivityEvent, DailyRollup } from './types';
+import { withFileLock } from './fileLock';
+import { DataCipher, MissingKeyError } from './dataCipher';
+import { STORAGE_VERSION, moveCorruptFile } from './storageMigrations';
+
+const SAVE_DELAY = 30 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Per-day aggregates persisted in `rollups.json`, so stats over weeks or months
+ * don't rescan raw events and remain available after those have expired. Each
+ * window keeps rollups of its own events; stats add up those of every window.
+ */
+export class RollupStore implements vscode.Disposable {
+  private readonly fileUri: vscode.Uri;
+  private readonly lockPath: string;
+  // By instance ID (empty for events without one), then by day
+  private rollups = new Map<string, Map<string, DailyRollup>>();
+  private live: RollupAccumulator;
+  private prunedBefore = '';
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  constructor(storageUri: vscode.Uri, private getIdleTimeout: () => number, private cipher: DataCipher) {
+    this.fileUri = vscode.Uri.joinPath(storageUri, 'rollups.json');
+    this.lockPath = vscode.Uri.joinPath(storageUri, 'rollups.lock').fsPath;
+    this.live = new RollupAccumulator(this.getIdleTimeout());
+  }
+
+  /**
+   * Read stored rollups, including those other windows have saved since
+   */
+  public async load(): Promise<void> {
+    this.mergeInto(this.rollups, await this.readStored());
+  }
+
+  /**
+   * Fold an event this window recorded into today's rollup
+   */
+  public add(event: ActivityEvent): void {
+    this.live.add(event, this.getInstance(event.instanceId));
+    this.scheduleSave();
+  }
+
+  /**
+   * Recompute the days fully covered by `events`, which must hold every event
+   * of every window between `coveredFrom` and `coveredUntil`. Covered days
+   * without events get an empty rollup. With `continueLive`, `events` end with
+   * the latest recorded event and new events carry on from where the replay
+   * of this window's events stopped.
+   */
+  public rebuild(events: ActivityEvent[], coveredFrom: number, coveredUntil = Date.now(), continueLive = false): void {
+    const rebuilt = buildInstanceRollups(events, this.getIdleTimeout());
+
+    const today = getDayKey(Date.now());
+    // Days cut off at either end of the covered range would only be partially rebuilt
+    for (let dayStart = Date.parse(getDayKey(coveredFrom)); dayStart <= coveredUntil; dayStart += DAY_MS) {
+      const date = getDayKey(dayStart);
+      const dayEnd = dayStart + DAY_MS - 1;
+      if (dayStart < coveredFrom || (dayEnd > coveredUntil && date !== today)) continue;
+
+      const final = date < today || undefined;
+      this.rollups.forEach(instance => instance.delete(date));
+      rebuilt.forEach(({ rollups }, instanceId) => {
+        const rollup = rollups.get(date);
+        if (rollup) {
+          this.getInstance(instanceId).set(date, { ...rollup, final });
+        }
+      });
+      // Marks a day without activity as complete
+      if (!this.getDay(date).length) {
+        this.getInstance('').set(date, { ...createRollup(date), final });
+      }
+    }
+
+    if (continueLive) {
+      this.live = rebuilt.get(vscode.env.sessionId)?.accumulator || new RollupAccumulator(this.getIdleTimeout());
+    }
+    this.scheduleSave();
+  }
+
+  /**
+   * Start of the earliest day in range not rebuilt from the stored events since it was over
+   */
+  public findFirstIncompleteDay(startTime: number, endTime: number): number | undefined {
+    for (let dayStart = Date.parse(getDayKey(startTime)); dayStart <= endTime; dayStart += DAY_MS) {
+      if (!this.getDay(getDayKey(dayStart)).some(rollup => rollup.final)) {
+        return dayStart;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Rollups of every window added up for the last `days` UTC days including
+   * today, oldest first. Days without activity are returned empty.
+   */
+  public getDays(days: number): DailyRollup[] {
+    const byDay = new Map<string, DailyRollup[]>();
+    this.rollups.forEach(instance => instance.forEach((rollup, date) => {
+      byDay.set(date, [...(byDay.get(date) || []), rollup]);
+    }));
+    const merged = new Map(Array.from(byDay.entries()).map(([date, rollups]) => [date, mergeRollups(date, rollups)]));
+    return getRecentDays(merged, days);
+  }
+
+  /**
+   * Number of days from the oldest stored rollup up to and including today
+   */
+  public getHistoryDays(): number {
+    return getHistoryDays(Array.from(this.rollups.values()).flatMap(instance => Array.from(instance.keys())));
+  }
+
+  /**
+   * Every window's rollups, oldest day first
+   */
+  public getAll(): DailyRollup[] {
+    return Array.from(this.rollups.values())
+      .flatMap(instance => Array.from(instance.values()))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /**
+   * Take over rollups from a backup for days not known here in more detail
+   */
+  public merge(rollups: DailyRollup[]): void {
+    this.mergeInto(this.rollups, this.groupByInstance(rollups));
+    this.scheduleSave();
+  }
+
+  public prune(cutoffTime: number): void {
+    const cutoffDay = getDayKey(cutoffTime);
+    this.prunedBefore = cutoffDay > this.prunedBefore ? cutoffDay : this.prunedBefore;
+    if (this.pruneBefore(this.rollups, cutoffDay)) {
+      this.scheduleSave();
+    }
+  }
+
+  public clear(): Promise<void> {
+    this.rollups.clear();
+    return this.save(true);
+  }
+
+  private getInstance(instanceId: string | undefined): Map<string, DailyRollup> {
+    let instance = this.rollups.get(instanceId || '');
+    if (!instance) {
+      instance = new Map();
+      this.rollups.set(instanceId || '', instance);
+    }
+    return instance;
+  }
+
+  private getDay(date: string): DailyRollup[] {
+    return Array.from(this.rollups.values())
+      .map(instance => instance.get(date))
+      .filter((rollup): rollup is DailyRollup => !!rollup);
+  }
+
+  private groupByInstance(rollups: DailyRollup[]): Map<string, Map<string, DailyRollup>> {
+    const grouped = new Map<string, Map<string, DailyRollup>>();
+    rollups.forEach(rollup => {
+      // Rollups from before they held every aggregate lack some of them
+      const complete = { ...createRollup(rollup.date), ...rollup };
+      const instanceId = rollup.instanceId || '';
+      grouped.set(instanceId, (grouped.get(instanceId) || new Map()).set(rollup.date, complete));
+    });
+    return grouped;
+  }
+
+  // A window's rollup of a day only grows, so the more complete copy replaces the other
+  private mergeInto(target: Map<string, Map<string, DailyRollup>>, source: Map<string, Map<string, DailyRollup>>): void {
+    source.forEach((rollups, instanceId) => {
+      const instance = target.get(instanceId) || new Map<string, DailyRollup>();
+      rollups.forEach((rollup, date) => {
+        const existing = instance.get(date);
+        if (!existing || this.isMoreComplete(rollup, existing)) {
+          instance.set(date, rollup);
+        }
+      });
+      target.set(instanceId, instance);
+    });
+  }
+
+  private pruneBefore(rollups: Map<string, Map<string, DailyRollup>>, cutoffDay: string): boolean {
+    let changed = false;
+    rollups.forEach((instance, instanceId) => {
+      instance.forEach((_, date) => {
+        if (date < cutoffDay) {
+          instance.delete(date);
+          changed = true;
+        }
+      });
+      if (instance.size === 0) {
+        rollups.delete(instanceId);
+      }
+    });
+    return changed;
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save();
+    }, SAVE_DELAY);
+  }
+
+  /**
+   * Write this window's rollups next to those of other windows, keeping
+   * whichever copy of a window's day is more complete, and pick up theirs
+   */
+  public async save(replace = false): Promise<void> {
+    try {
+      await this.cipher.whenReady();
+      await withFileLock(this.lockPath, async () => {
+        const merged = replace ? new Map<string, Map<string, DailyRollup>>() : await this.readStored();
+        this.mergeInto(merged, this.rollups);
+        this.pruneBefore(merged, this.prunedBefore);
+
+        const rollups = Array.from(merged.values()).flatMap(instance => Array.from(instance.values()));
+        const content = { rollups, lastUpdated: Date.now(), version: STORAGE_VERSION };
+        const tempUri = vscode.Uri.joinPath(this.fileUri, '..', `rollups.${vscode.env.sessionId}.tmp`);
+        await vscode.workspace.fs.writeFile(tempUri, Buffer.from(this.cipher.encrypt(JSON.stringify(content))));
+        await vscode.workspace.fs.rename(tempUri, this.fileUri, { overwrite: true });
+
+        this.mergeInto(this.rollups, merged);
+      });
+    } catch (error) {
+      console.error('Failed to save activity rollups:', error);
+    }
+  }
+
+  private isMoreComplete(rollup: DailyRollup, other: DailyRollup): boolean {
+    if (!!rollup.final !== !!other.final) return !!rollup.final;
+    return rollup.events >= other.events;
+  }
+
+  /**
+   * ID of the encryption key the stored rollups were written with
+   */
+  public async getKeyId(): Promise<string | undefined> {
+    try {
+      return this.cipher.getKeyId(Buffer.from(await vscode.workspace.fs.readFile(this.fileUri)).toString('utf8'));
+    } catch {
+      // Not written yet
+      return undefined;
+    }
+  }
+
+  private async readStored(): Promise<Map<string, Map<string, DailyRollup>>> {
+    let content: Uint8Array;
+    try {
+      content = await vscode.workspace.fs.readFile(this.fileUri);
+    } catch {
+      // Not written yet
+      return new Map();
+    }
+
+    try {
+      const parsed = JSON.parse(this.cipher.decrypt(Buffer.from(content).toString('utf8')));
+      return this.groupByInstance(parsed.rollups || []);
+    } catch (error) {
+      // Not corrupt, just unreadable without its key: loading and saving fail until it is back
+      if (error instanceof MissingKeyError) throw error;
+      // Rollups are rebuilt from the raw events that are still around
+      console.error('Failed to parse rollups.json:', error);
+      await moveCorruptFile(vscode.Uri.joinPath(this.fileUri, '..'), this.fileUri);
+      return new Map();
+    }
+  }
+
+  public dispose(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    this.save();
+  }
+}
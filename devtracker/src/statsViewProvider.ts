@@ -196,6 +196,14 @@ export class StatsViewProvider implements vscode.WebviewViewProvider {
                   <span class="stat-label">Commands</span>
                   <span class="stat-value">${stats.commandsExecuted}</span>
               </div>
+              <div class="stat-item">
+                  <span class="stat-label">Time to Green</span>
+                  <span class="stat-value">${Math.round(stats.diagnostics.timeToGreen / (1000 * 60))}m</span>
+              </div>
+              <div class="stat-item">
+                  <span class="stat-label">Current Errors</span>
+                  <span class="stat-value">${stats.diagnostics.currentErrors}</span>
+              </div>
 
               <div class="section-title">📈 This Week</div>
               <div class="stat-item">
@@ -211,6 +219,16 @@ export class StatsViewProvider implements vscode.WebviewViewProvider {
                   <span class="stat-value">${weekStats.streakData.current} days</span>
               </div>
 
+              ${weekStats.projectActivity.length > 1 ? `
+                  <div class="section-title">📁 Projects</div>
+                  ${weekStats.projectActivity.slice(0, 3).map((project: any) => `
+                      <div class="stat-item">
+                          <span class="stat-label">${project.projectName}</span>
+                          <span class="stat-value">${Math.round(project.activeTime / (1000 * 60))}m</span>
+                      </div>
+                  `).join('')}
+              ` : ''}
+
               ${weekStats.mostUsedLanguages.length > 0 ? `
                   <div class="section-title">🌟 Top Languages</div>
                   ${weekStats.mostUsedLanguages.slice(0, 3).map((lang: any) => `
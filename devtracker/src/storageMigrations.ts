@@ -0,0 +1,323 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { getDayKey } from '@codeflow/stats-engine';
+import { ActivityEvent, ActivityType, DailyRollup, SessionData, TaskActivityData } from './types';
+import { EventJournal } from './eventJournal';
+import { withFileLock } from './fileLock';
+import { DataCipher, MissingKeyError } from './dataCipher';
+import { categorizeWorkflow, getTaskScopeKind } from './taskTracker';
+
+/**
+ * Version of the on-disk layout written by this build. Bump it together with
+ * a new entry in MIGRATIONS whenever stored files or event shapes change.
+ */
+export const STORAGE_VERSION = 6;
+
+const MANIFEST_FILE_NAME = 'storage.json';
+const LOCK_FILE_NAME = 'storage.lock';
+const BACKUP_DIRECTORY_NAME = 'migration-backups';
+const CORRUPT_DIRECTORY_NAME = 'corrupt';
+const MAX_MIGRATION_BACKUPS = 3;
+// Other windows wait this long for a migration of a large store rather than load it half migrated
+const MIGRATION_LOCK_TIMEOUT = 10 * 60 * 1000;
+// Storage written before the manifest existed
+const LEGACY_VERSION = 1;
+// Events were recorded before their session started, while storage was still loading
+const SESSION_START_GRACE = 5 * 60 * 1000;
+
+// Never copied into backups
+const EXCLUDED_FROM_BACKUP = [BACKUP_DIRECTORY_NAME, CORRUPT_DIRECTORY_NAME, 'backups'];
+
+interface StorageManifest {
+  version: number;
+  updatedAt: number;
+}
+
+interface StorageMigration {
+  // Version the storage is at once this migration has run
+  version: number;
+  description: string;
+  migrate(storageUri: vscode.Uri, cipher: DataCipher): Promise<void>;
+}
+
+const MIGRATIONS: StorageMigration[] = [
+  {
+    version: 2,
+    description: 'Move events from activity-data.json into the event journal',
+    migrate: async (storageUri, cipher) => {
+      const legacyPath = path.join(storageUri.fsPath, 'activity-data.json');
+      let content: string;
+      try {
+        content = await fs.readFile(legacyPath, 'utf8');
+      } catch {
+        return;
+      }
+
+      let events: ActivityEvent[];
+      try {
+        events = JSON.parse(content).events || [];
+      } catch (error) {
+        console.error('Failed to parse activity-data.json:', error);
+        await moveCorruptFile(storageUri, vscode.Uri.file(legacyPath));
+        return;
+      }
+
+      const journal = new EventJournal(storageUri, 'migration', cipher);
+      await journal.initialize();
+      await journal.writeEvents(events);
+      await fs.rm(legacyPath, { force: true });
+    }
+  },
+  {
+    version: 3,
+    description: 'Classify task events recorded before tasks carried a build/test/lint category',
+    migrate: async (storageUri, cipher) => {
+      const journal = new EventJournal(storageUri, 'migration', cipher);
+      await journal.initialize();
+      await journal.rewriteEvents(event => {
+        if (event.type !== ActivityType.TASK_START && event.type !== ActivityType.TASK_END) return event;
+
+        const data = event.data as TaskActivityData;
+        if (data.category || !data.taskName) return event;
+        return { ...event, data: { ...data, category: categorizeWorkflow(data.taskName) } };
+      });
+    }
+  },
+  {
+    version: 4,
+    description: 'Replace the workspace folder stored as task scope, absolute path included, with the kind of scope',
+    migrate: async (storageUri, cipher) => {
+      const journal = new EventJournal(storageUri, 'migration', cipher);
+      await journal.initialize();
+      await journal.rewriteEvents(event => {
+        if (event.type !== ActivityType.TASK_START && event.type !== ActivityType.TASK_END) return event;
+
+        const data = event.data as TaskActivityData;
+        if (data.scope === undefined || typeof data.scope === 'string') return event;
+        return { ...event, data: { ...data, scope: getTaskScopeKind(data.scope) } };
+      });
+    }
+  },
+  {
+    version: 5,
+    description: 'Drop rollups of days whose events are still stored, to rebuild them per window with every aggregate',
+    migrate: async (storageUri, cipher) => {
+      const rollupsPath = path.join(storageUri.fsPath, 'rollups.json');
+      let content: string;
+      try {
+        content = await fs.readFile(rollupsPath, 'utf8');
+      } catch {
+        return;
+      }
+
+      let stored: { rollups?: DailyRollup[] };
+      try {
+        stored = JSON.parse(cipher.decrypt(content));
+      } catch (error) {
+        if (error instanceof MissingKeyError) throw error;
+        console.error('Failed to parse rollups.json:', error);
+        await moveCorruptFile(storageUri, vscode.Uri.file(rollupsPath));
+        return;
+      }
+
+      const journal = new EventJournal(storageUri, 'migration', cipher);
+      await journal.initialize();
+      const oldestSegment = await journal.getOldestSegmentTime();
+      if (oldestSegment === undefined) return;
+
+      // Older days keep the counts and times they have; their events are gone
+      const rebuildFrom = getDayKey(oldestSegment);
+      const rollups = (stored.rollups || []).filter(rollup => rollup.date < rebuildFrom);
+      await fs.writeFile(rollupsPath, cipher.encrypt(JSON.stringify({ ...stored, rollups })));
+    }
+  },
+  {
+    version: 6,
+    description: 'Move events stamped with an ID of their own onto the stored session they were recorded in',
+    migrate: async (storageUri, cipher) => {
+      let sessions: SessionData[];
+      try {
+        const stored = JSON.parse(cipher.decrypt(await fs.readFile(path.join(storageUri.fsPath, 'sessions-data.json'), 'utf8')));
+        sessions = [...(stored.sessions || []), ...(stored.currentSession ? [stored.currentSession] : [])];
+      } catch (error) {
+        if (error instanceof MissingKeyError) throw error;
+        // Without sessions there is nothing to move the events onto
+        return;
+      }
+
+      const journal = new EventJournal(storageUri, 'migration', cipher);
+      await journal.initialize();
+      const sessionIds = getSessionReplacements(await journal.read(), sessions);
+      if (sessionIds.size === 0) return;
+
+      await journal.rewriteEvents(event => {
+        const sessionId = sessionIds.get(event.sessionId);
+        return sessionId ? { ...event, sessionId } : event;
+      });
+    }
+  }
+];
+
+/**
+ * The tracker used to stamp events with a session ID the sessions never had.
+ * Each of those IDs maps to the session covering most of its events,
+ * preferring one of the same workspace. Events must be sorted oldest first.
+ */
+export function getSessionReplacements(events: ActivityEvent[], sessions: SessionData[]): Map<string, string> {
+  const sessionIds = new Set(sessions.map(session => session.id));
+  const bySessionId = new Map<string, ActivityEvent[]>();
+  for (const event of events) {
+    if (sessionIds.has(event.sessionId)) continue;
+    const group = bySessionId.get(event.sessionId);
+    if (group) {
+      group.push(event);
+    } else {
+      bySessionId.set(event.sessionId, [event]);
+    }
+  }
+
+  const replacements = new Map<string, string>();
+  bySessionId.forEach((group, legacyId) => {
+    // Events are read oldest first
+    const first = group[0].timestamp;
+    const last = group[group.length - 1].timestamp;
+    let best: { id: string; sameWorkspace: number; covered: number } | undefined;
+
+    for (const session of sessions) {
+      const start = session.startTime - SESSION_START_GRACE;
+      const end = session.endTime ?? session.startTime;
+      if (start > last || end < first) continue;
+
+      const covered = group.filter(event => event.timestamp >= start && event.timestamp <= end);
+      const sameWorkspace = covered.filter(event => event.workspaceId === session.workspaceId).length;
+      if (covered.length > 0 && (!best || sameWorkspace > best.sameWorkspace ||
+          (sameWorkspace === best.sameWorkspace && covered.length > best.covered))) {
+        best = { id: session.id, sameWorkspace, covered: covered.length };
+      }
+    }
+    if (best) {
+      replacements.set(legacyId, best.id);
+    }
+  });
+  return replacements;
+}
+
+/**
+ * Move a file that can no longer be parsed into `corrupt/`, so it can be
+ * inspected or recovered instead of being overwritten with an empty history
+ */
+export async function moveCorruptFile(storageUri: vscode.Uri, fileUri: vscode.Uri): Promise<void> {
+  try {
+    const corruptDirectory = vscode.Uri.joinPath(storageUri, CORRUPT_DIRECTORY_NAME);
+    await vscode.workspace.fs.createDirectory(corruptDirectory);
+
+    const name = path.basename(fileUri.fsPath);
+    const target = vscode.Uri.joinPath(corruptDirectory, `${Date.now()}-${name}`);
+    await vscode.workspace.fs.rename(fileUri, target, { overwrite: true });
+    console.warn(`Moved unreadable ${name} to ${target.fsPath}`);
+  } catch (error) {
+    console.error(`Failed to move aside ${fileUri.fsPath}:`, error);
+  }
+}
+
+/**
+ * Delete migration backups and files moved aside as corrupt. Both are copies
+ * of the store as it was, possibly in plaintext, so they go once encryption is
+ * switched on or the key is rotated.
+ */
+export async function deleteStorageCopies(storageUri: vscode.Uri): Promise<void> {
+  for (const directory of [BACKUP_DIRECTORY_NAME, CORRUPT_DIRECTORY_NAME]) {
+    await fs.rm(path.join(storageUri.fsPath, directory), { recursive: true, force: true });
+  }
+}
+
+/**
+ * Brings the extension's global storage up to STORAGE_VERSION one migration at
+ * a time, taking a backup of the data before each step.
+ */
+export class StorageMigrator {
+  private readonly manifestPath: string;
+  private readonly lockPath: string;
+
+  constructor(private storageUri: vscode.Uri, private cipher: DataCipher) {
+    this.manifestPath = path.join(storageUri.fsPath, MANIFEST_FILE_NAME);
+    this.lockPath = path.join(storageUri.fsPath, LOCK_FILE_NAME);
+  }
+
+  public async run(): Promise<void> {
+    await fs.mkdir(this.storageUri.fsPath, { recursive: true });
+
+    // Only one window migrates; the others find the storage up to date afterwards
+    await withFileLock(this.lockPath, async () => {
+      const version = await this.readVersion();
+
+      if (version > STORAGE_VERSION) {
+        vscode.window.showWarningMessage(
+          'Activity data was written by a newer version of Developer Activity Tracker. Please update the extension.'
+        );
+        return;
+      }
+
+      for (const migration of MIGRATIONS.filter(m => m.version > version)) {
+        const from = await this.readVersion();
+        console.log(`Migrating activity storage from v${from} to v${migration.version}: ${migration.description}`);
+
+        await this.backup(from);
+        await migration.migrate(this.storageUri, this.cipher);
+        await this.writeVersion(migration.version);
+      }
+
+      if (version === STORAGE_VERSION) return;
+      await this.writeVersion(STORAGE_VERSION);
+      await this.pruneBackups();
+    }, { acquireTimeout: MIGRATION_LOCK_TIMEOUT });
+  }
+
+  private async readVersion(): Promise<number> {
+    try {
+      const manifest: StorageManifest = JSON.parse(await fs.readFile(this.manifestPath, 'utf8'));
+      if (typeof manifest.version === 'number') {
+        return manifest.version;
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        await moveCorruptFile(this.storageUri, vscode.Uri.file(this.manifestPath));
+      }
+    }
+
+    // Without a manifest: files from before versioning, or a fresh install
+    const entries = await fs.readdir(this.storageUri.fsPath).catch(() => [] as string[]);
+    const hasData = entries.some(entry => entry === 'activity-data.json' || entry === 'sessions-data.json' || entry === 'events');
+    return hasData ? LEGACY_VERSION : STORAGE_VERSION;
+  }
+
+  private async writeVersion(version: number): Promise<void> {
+    const manifest: StorageManifest = { version, updatedAt: Date.now() };
+    const tempPath = `${this.manifestPath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(manifest, null, 2));
+    await fs.rename(tempPath, this.manifestPath);
+  }
+
+  private async backup(version: number): Promise<void> {
+    const entries = (await fs.readdir(this.storageUri.fsPath))
+      .filter(entry => !EXCLUDED_FROM_BACKUP.includes(entry) && !/\.(lock|tmp)$/.test(entry));
+    if (entries.length === 0) return;
+
+    const backupPath = path.join(this.storageUri.fsPath, BACKUP_DIRECTORY_NAME, `v${version}-${Date.now()}`);
+    await fs.mkdir(backupPath, { recursive: true });
+    for (const entry of entries) {
+      await fs.cp(path.join(this.storageUri.fsPath, entry), path.join(backupPath, entry), { recursive: true });
+    }
+  }
+
+  private async pruneBackups(): Promise<void> {
+    const backupRoot = path.join(this.storageUri.fsPath, BACKUP_DIRECTORY_NAME);
+    const backups = (await fs.readdir(backupRoot).catch(() => [] as string[]))
+      .sort((a, b) => Number(a.split('-')[1]) - Number(b.split('-')[1]));
+
+    for (const backup of backups.slice(0, Math.max(0, backups.length - MAX_MIGRATION_BACKUPS))) {
+      await fs.rm(path.join(backupRoot, backup), { recursive: true, force: true });
+    }
+  }
+}
@@ -0,0 +1,252 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ActivityEvent } from './types';
+import { withFileLock } from './fileLock';
+import { moveCorruptFile } from './storageMigrations';
+
+const FILE_NAME = 'sync-outbox.json';
+const LOCK_FILE_NAME = 'sync-outbox.lock';
+// Additions are written in batches; the outbox is shared by all windows
+const SAVE_DELAY = 5000;
+// Retries back off exponentially from the first delay up to the maximum
+const RETRY_BASE_DELAY = 30 * 1000;
+const RETRY_MAX_DELAY = 60 * 60 * 1000;
+// Syncs an event may wait through for the server to receive its session
+const MAX_SESSION_ATTEMPTS = 10;
+
+export interface OutboxEntry {
+  id: string;
+  timestamp: number;
+  // Syncs that couldn't store the event because its session was missing
+  sessionAttempts?: number;
+}
+
+interface OutboxState {
+  events: OutboxEntry[];
+  // Version (end time) of each session the server has acknowledged
+  sessions: Record<string, number>;
+  failedAttempts: number;
+  nextAttemptAt: number;
+  // Whether events recorded before the outbox existed (or was lost) were added
+  seeded: boolean;
+}
+
+/**
+ * Persistent list of event IDs the server has not acknowledged yet. Events are
+ * added as they are recorded and only removed once the sync response reports
+ * them as stored, so nothing is lost to failed requests, restarts or events
+ * that were still being written while a sync ran.
+ */
+export class SyncOutbox implements vscode.Disposable {
+  private readonly fileUri: vscode.Uri;
+  private readonly lockPath: string;
+  // Changes not written yet
+  private added = new Map<string, number>();
+  private acknowledged = new Set<string>();
+  private acknowledgedSessions = new Map<string, number>();
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  constructor(private storageUri: vscode.Uri) {
+    this.fileUri = vscode.Uri.joinPath(storageUri, FILE_NAME);
+    this.lockPath = path.join(storageUri.fsPath, LOCK_FILE_NAME);
+  }
+
+  public async isSeeded(): Promise<boolean> {
+    return (await this.read()).seeded;
+  }
+
+  /**
+   * Add events recorded while nothing was collecting them, e.g. before sync
+   * was switched on
+   */
+  public async seed(events: ActivityEvent[]): Promise<void> {
+    this.add(events);
+    await this.save();
+    await this.update(state => {
+      state.seeded = true;
+    });
+  }
+
+  public add(events: ActivityEvent[]): void {
+    events.forEach(event => {
+      this.added.set(event.id, event.timestamp);
+      this.acknowledged.delete(event.id);
+    });
+    this.scheduleSave();
+  }
+
+  /**
+   * Every unacknowledged event, oldest first
+   */
+  public async getPending(): Promise<OutboxEntry[]> {
+    await this.save();
+    const state = await this.read();
+    return state.events.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  public async getAcknowledgedSessions(): Promise<Record<string, number>> {
+    await this.save();
+    return (await this.read()).sessions;
+  }
+
+  /**
+   * Remove events the server stored (or that no longer exist locally) and
+   * remember which version of each session it has
+   */
+  public async acknowledge(eventIds: string[], sessions: Map<string, number> = new Map()): Promise<void> {
+    eventIds.forEach(id => {
+      this.acknowledged.add(id);
+      this.added.delete(id);
+    });
+    sessions.forEach((version, id) => this.acknowledgedSessions.set(id, version));
+    await this.save();
+  }
+
+  /**
+   * Count a sync that couldn't store these events for lack of their session.
+   * Returns those that have waited long enough and should be given up.
+   */
+  public async recordMissingSession(eventIds: string[]): Promise<string[]> {
+    if (eventIds.length === 0) return [];
+    await this.save();
+
+    const ids = new Set(eventIds);
+    return this.update(state => state.events
+      .filter(entry => ids.has(entry.id))
+      .filter(entry => {
+        entry.sessionAttempts = (entry.sessionAttempts || 0) + 1;
+        return entry.sessionAttempts >= MAX_SESSION_ATTEMPTS;
+      })
+      .map(entry => entry.id));
+  }
+
+  /**
+   * Whether a failed sync asked for the next attempt to wait
+   */
+  public async getNextAttemptTime(): Promise<number> {
+    return (await this.read()).nextAttemptAt;
+  }
+
+  /**
+   * Push the next attempt back exponentially, with full jitter so that
+   * laptops coming back online don't all retry at the same moment
+   */
+  public async recordFailure(): Promise<number> {
+    return this.update(state => {
+      const delay = Math.min(RETRY_MAX_DELAY, RETRY_BASE_DELAY * 2 ** state.failedAttempts);
+      state.failedAttempts++;
+      state.nextAttemptAt = Date.now() + Math.round(Math.random() * delay);
+      return state.nextAttemptAt;
+    });
+  }
+
+  public async recordSuccess(): Promise<void> {
+    await this.update(state => {
+      state.failedAttempts = 0;
+      state.nextAttemptAt = 0;
+    });
+  }
+
+  /**
+   * Forget events and sessions that have been deleted locally in the meantime
+   */
+  public async prune(cutoffTime: number, sessionIds: string[]): Promise<void> {
+    const keep = new Set(sessionIds);
+    await this.update(state => {
+      state.events = state.events.filter(entry => entry.timestamp >= cutoffTime);
+      Object.keys(state.sessions)
+        .filter(id => !keep.has(id))
+        .forEach(id => delete state.sessions[id]);
+    });
+  }
+
+  public async clear(): Promise<void> {
+    this.added.clear();
+    this.acknowledged.clear();
+    this.acknowledgedSessions.clear();
+    await this.update(state => {
+      state.events = [];
+      state.sessions = {};
+    });
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save().catch(error => console.error('Failed to save sync outbox:', error));
+    }, SAVE_DELAY);
+  }
+
+  private async save(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    if (this.added.size === 0 && this.acknowledged.size === 0 && this.acknowledgedSessions.size === 0) return;
+
+    const added = this.added;
+    const acknowledged = this.acknowledged;
+    const acknowledgedSessions = this.acknowledgedSessions;
+    this.added = new Map();
+    this.acknowledged = new Set();
+    this.acknowledgedSessions = new Map();
+
+    try {
+      await this.update(state => {
+        const events = new Map(state.events.map(entry => [entry.id, entry]));
+        added.forEach((timestamp, id) => {
+          if (!events.has(id)) events.set(id, { id, timestamp });
+        });
+        acknowledged.forEach(id => events.delete(id));
+        state.events = Array.from(events.values());
+        acknowledgedSessions.forEach((version, id) => state.sessions[id] = version);
+      });
+    } catch (error) {
+      // Keep the changes for the next attempt; acknowledgements are applied last, so they still win
+      added.forEach((timestamp, id) => this.added.set(id, timestamp));
+      acknowledged.forEach(id => this.acknowledged.add(id));
+      acknowledgedSessions.forEach((version, id) => {
+        if (!this.acknowledgedSessions.has(id)) this.acknowledgedSessions.set(id, version);
+      });
+      throw error;
+    }
+  }
+
+  private update<T>(change: (state: OutboxState) => T): Promise<T> {
+    return withFileLock(this.lockPath, async () => {
+      const state = await this.read();
+      const result = change(state);
+
+      const tempPath = `${this.fileUri.fsPath}.${vscode.env.sessionId}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(state));
+      await fs.rename(tempPath, this.fileUri.fsPath);
+      return result;
+    });
+  }
+
+  private async read(): Promise<OutboxState> {
+    const empty: OutboxState = { events: [], sessions: {}, failedAttempts: 0, nextAttemptAt: 0, seeded: false };
+    let content: string;
+    try {
+      content = await fs.readFile(this.fileUri.fsPath, 'utf8');
+    } catch {
+      // Not written yet
+      return empty;
+    }
+
+    try {
+      return { ...empty, ...JSON.parse(content) };
+    } catch (error) {
+      // Without the file the outbox is seeded again from the last successful sync
+      console.error('Failed to parse sync-outbox.json:', error);
+      await moveCorruptFile(this.storageUri, this.fileUri);
+      return empty;
+    }
+  }
+
+  public dispose(): void {
+    this.save().catch(error => console.error('Failed to save sync outbox:', error));
+  }
+}
@@ -0,0 +1,116 @@
+import * as vscode from 'vscode';
+import { ActivityType, TaskActivityData, TaskScopeKind, WorkflowCategory } from './types';
+
+type TaskEventCallback = (type: ActivityType, data: TaskActivityData, resource?: vscode.Uri) => void;
+
+interface RunningTask {
+  startTime: number;
+  exitCode?: number;
+}
+
+const LINT_PATTERN = /\b(lint|eslint|tslint|stylelint|prettier --check|ruff|flake8|pylint|clippy|golangci-lint)\b/i;
+const TEST_PATTERN = /\b(test|tests|jest|mocha|vitest|pytest|karma|ava|jasmine|phpunit|rspec|ctest)\b/i;
+const BUILD_PATTERN = /\b(build|compile|tsc|webpack|rollup|esbuild|vite build|make|cmake|gradle|msbuild|bundle|package)\b/i;
+
+/**
+ * Classify a task name or command line into the build / test / lint feedback loop
+ */
+export function categorizeWorkflow(text: string): WorkflowCategory {
+  if (LINT_PATTERN.test(text)) return 'lint';
+  if (TEST_PATTERN.test(text)) return 'test';
+  if (BUILD_PATTERN.test(text)) return 'build';
+  return 'other';
+}
+
+/**
+ * Kind of a task's scope. The folder itself isn't kept: its URI holds an
+ * absolute path that no privacy setting covers.
+ */
+export function getTaskScopeKind(scope: unknown): TaskScopeKind | undefined {
+  if (scope === vscode.TaskScope.Global) return 'global';
+  if (scope === vscode.TaskScope.Workspace) return 'workspace';
+  return scope && typeof scope === 'object' ? 'folder' : undefined;
+}
+
+/**
+ * Reports task runs with their category, process exit code and duration.
+ * Runs from the Testing view aren't covered: reading test results
+ * (`vscode.tests.testResults`) is a proposed API that published extensions
+ * can't enable, so test tasks and terminal test commands stand in for them.
+ */
+export class TaskTracker implements vscode.Disposable {
+  private disposables: vscode.Disposable[] = [];
+  private runningTasks = new Map<vscode.TaskExecution, RunningTask>();
+
+  constructor(private onTaskEvent: TaskEventCallback) {
+    this.disposables.push(
+      vscode.tasks.onDidStartTask(this.onTaskStart.bind(this)),
+      vscode.tasks.onDidEndTaskProcess(this.onTaskProcessEnd.bind(this)),
+      vscode.tasks.onDidEndTask(this.onTaskEnd.bind(this))
+    );
+  }
+
+  private getTaskData(task: vscode.Task): TaskActivityData {
+    return {
+      taskName: task.name,
+      taskType: task.definition.type,
+      scope: getTaskScopeKind(task.scope),
+      category: this.categorizeTask(task),
+      isBackground: task.isBackground
+    };
+  }
+
+  private categorizeTask(task: vscode.Task): WorkflowCategory {
+    const group = task.group;
+    if (group) {
+      if (group.id === vscode.TaskGroup.Test.id) return 'test';
+      if (group.id === vscode.TaskGroup.Build.id ||
+          group.id === vscode.TaskGroup.Rebuild.id ||
+          group.id === vscode.TaskGroup.Clean.id) {
+        // Lint tasks are often put in the build group
+        return categorizeWorkflow(task.name) === 'lint' ? 'lint' : 'build';
+      }
+    }
+
+    // npm/yarn tasks carry the script name in their definition
+    const script = typeof task.definition.script === 'string' ? task.definition.script : '';
+    return categorizeWorkflow(`${task.name} ${script}`);
+  }
+
+  // Global and workspace-wide tasks have a numeric TaskScope instead of a folder
+  private getTaskFolderUri(task: vscode.Task): vscode.Uri | undefined {
+    return typeof task.scope === 'object' ? task.scope.uri : undefined;
+  }
+
+  private onTaskStart(event: vscode.TaskStartEvent): void {
+    this.runningTasks.set(event.execution, { startTime: Date.now() });
+
+    const task = event.execution.task;
+    this.onTaskEvent(ActivityType.TASK_START, this.getTaskData(task), this.getTaskFolderUri(task));
+  }
+
+  private onTaskProcessEnd(event: vscode.TaskProcessEndEvent): void {
+    const running = this.runningTasks.get(event.execution);
+    if (running) {
+      running.exitCode = event.exitCode;
+    }
+  }
+
+  private onTaskEnd(event: vscode.TaskEndEvent): void {
+    const running = this.runningTasks.get(event.execution);
+    this.runningTasks.delete(event.execution);
+
+    const task = event.execution.task;
+    this.onTaskEvent(ActivityType.TASK_END, {
+      ...this.getTaskData(task),
+      exitCode: running?.exitCode,
+      duration: running ? Date.now() - running.startTime : undefined
+    }, this.getTaskFolderUri(task));
+  }
+
+  public dispose(): void {
+    this.runningTasks.clear();
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+  }
+}
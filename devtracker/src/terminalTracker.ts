@@ -0,0 +1,95 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ActivityType, TerminalCommandData } from './types';
+import { categorizeWorkflow } from './taskTracker';
+
+type TerminalEventCallback = (type: ActivityType, data: TerminalCommandData, resource?: vscode.Uri) => void;
+
+/**
+ * Records commands run in integrated terminals through shell integration.
+ * Only the executable name is kept unless the full command line is enabled.
+ */
+export class TerminalTracker implements vscode.Disposable {
+  private disposables: vscode.Disposable[] = [];
+  private executions = new Map<vscode.TerminalShellExecution, { terminal: vscode.Terminal; startTime: number }>();
+
+  constructor(private onTerminalEvent: TerminalEventCallback) {
+    this.disposables.push(
+      vscode.window.onDidStartTerminalShellExecution(this.onExecutionStart.bind(this)),
+      vscode.window.onDidEndTerminalShellExecution(this.onExecutionEnd.bind(this)),
+      vscode.window.onDidCloseTerminal(this.onTerminalClose.bind(this))
+    );
+  }
+
+  private shouldRecordCommandLine(): boolean {
+    const config = vscode.workspace.getConfiguration('devActivityTracker');
+    return config.get<boolean>('recordTerminalCommandLine', false);
+  }
+
+  private onExecutionStart(event: vscode.TerminalShellExecutionStartEvent): void {
+    this.executions.set(event.execution, { terminal: event.terminal, startTime: Date.now() });
+  }
+
+  private onExecutionEnd(event: vscode.TerminalShellExecutionEndEvent): void {
+    try {
+      const startTime = this.executions.get(event.execution)?.startTime;
+      this.executions.delete(event.execution);
+
+      const commandLine = event.execution.commandLine;
+      const executable = this.getExecutable(commandLine.value);
+      if (!executable) return;
+
+      const cwd = event.execution.cwd;
+      this.onTerminalEvent(ActivityType.TERMINAL_COMMAND, {
+        terminalName: event.terminal.name,
+        executable,
+        commandLine: this.shouldRecordCommandLine() ? commandLine.value : undefined,
+        // Categorized from the full command line before arguments are dropped
+        category: categorizeWorkflow(commandLine.value),
+        exitCode: event.exitCode,
+        duration: startTime !== undefined ? Date.now() - startTime : undefined,
+        confidence: this.describeConfidence(commandLine.confidence)
+      }, cwd ?? event.terminal.shellIntegration?.cwd);
+    } catch (error) {
+      console.error('Failed to track terminal command:', error);
+    }
+  }
+
+  // Commands still running when their terminal is closed never report an end
+  private onTerminalClose(terminal: vscode.Terminal): void {
+    this.executions.forEach((execution, key) => {
+      if (execution.terminal === terminal) {
+        this.executions.delete(key);
+      }
+    });
+  }
+
+  /**
+   * First word of the command line that is not an environment assignment,
+   * reduced to its base name (`/usr/bin/git` -> `git`)
+   */
+  private getExecutable(commandLine: string): string | undefined {
+    const tokens = commandLine.trim().split(/\s+/);
+    const command = tokens.find(token => token && !/^[A-Za-z_][A-Za-z0-9_]*=/.test(token));
+    if (!command) return undefined;
+
+    return path.basename(command.replace(/^["']|["']$/g, ''));
+  }
+
+  private describeConfidence(confidence: vscode.TerminalShellExecutionCommandLineConfidence): TerminalCommandData['confidence'] {
+    switch (confidence) {
+      case vscode.TerminalShellExecutionCommandLineConfidence.High:
+        return 'high';
+      case vscode.TerminalShellExecutionCommandLineConfidence.Medium:
+        return 'medium';
+      default:
+        return 'low';
+    }
+  }
+
+  public dispose(): void {
+    this.executions.clear();
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+  }
+}
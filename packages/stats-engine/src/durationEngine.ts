@@ -0,0 +1,107 @@
+import { ActivityEvent, ActivityType, DurationEntry, DurationSummary, HeartbeatData, IdleActivityData } from './types';
+
+export interface TimeInterval {
+  start: number;
+  end: number;
+}
+
+/**
+ * Turns heartbeat events into time spent per project, file, language and branch.
+ *
+ * The gap between two consecutive heartbeats is credited to the earlier one,
+ * unless it is longer than the idle timeout, in which case the user is assumed
+ * to have been away and the gap is dropped. Periods reported as idle by the
+ * IdleDetector are removed from every gap they overlap.
+ */
+export class DurationEngine {
+  constructor(private idleTimeout: number) {}
+
+  /**
+   * Collect the AFK periods bounded by IDLE_START / IDLE_END events.
+   * An idle period that has not ended yet is treated as open-ended.
+   */
+  public static getIdleIntervals(events: ActivityEvent[]): TimeInterval[] {
+    const intervals: TimeInterval[] = [];
+    let openSince: number | null = null;
+
+    for (const event of [...events].sort((a, b) => a.timestamp - b.timestamp)) {
+      if (event.type === ActivityType.IDLE_START) {
+        openSince = (event.data as IdleActivityData).idleSince ?? event.timestamp;
+      } else if (event.type === ActivityType.IDLE_END) {
+        const idleSince = (event.data as IdleActivityData).idleSince ?? openSince;
+        if (idleSince !== null && idleSince !== undefined) {
+          intervals.push({ start: idleSince, end: event.timestamp });
+        }
+        openSince = null;
+      }
+    }
+
+    if (openSince !== null) {
+      intervals.push({ start: openSince, end: Infinity });
+    }
+
+    return intervals;
+  }
+
+  /**
+   * Length of [start, end) that does not fall inside any idle interval
+   */
+  public static excludeIdle(start: number, end: number, idleIntervals: TimeInterval[]): number {
+    let active = end - start;
+    for (const idle of idleIntervals) {
+      const overlap = Math.min(end, idle.end) - Math.max(start, idle.start);
+      if (overlap > 0) {
+        active -= overlap;
+      }
+    }
+    return Math.max(0, active);
+  }
+
+  public calculate(events: ActivityEvent[]): DurationSummary {
+    const heartbeats = events
+      .filter(e => e.type === ActivityType.HEARTBEAT)
+      .sort((a, b) => a.timestamp - b.timestamp);
+
+    const projects = new Map<string, number>();
+    const files = new Map<string, number>();
+    const languages = new Map<string, number>();
+    const branches = new Map<string, number>();
+    const idleIntervals = DurationEngine.getIdleIntervals(events);
+    let total = 0;
+
+    for (let i = 0; i < heartbeats.length - 1; i++) {
+      const current = heartbeats[i];
+      const next = heartbeats[i + 1];
+      if (next.timestamp - current.timestamp > this.idleTimeout) continue;
+
+      const gap = DurationEngine.excludeIdle(current.timestamp, next.timestamp, idleIntervals);
+      if (gap <= 0) continue;
+
+      const data = current.data as HeartbeatData;
+      total += gap;
+      this.credit(projects, current.projectName, gap);
+      this.credit(files, data.filePath || data.fileName, gap);
+      this.credit(languages, data.language, gap);
+      this.credit(branches, data.branch, gap);
+    }
+
+    return {
+      total,
+      projects: this.toEntries(projects),
+      files: this.toEntries(files),
+      languages: this.toEntries(languages),
+      branches: this.toEntries(branches)
+    };
+  }
+
+  private credit(totals: Map<string, number>, key: string | undefined, time: number): void {
+    if (!key) return;
+    totals.set(key, (totals.get(key) || 0) + time);
+  }
+
+  private toEntries(totals: Map<string, number>): DurationEntry[] {
+    return Array.from(totals.entries())
+      .map(([name, time]) => ({ name, time }))
+      .sort((a, b) => b.time - a.time);
+  }
+}
@@ -0,0 +1,16 @@
+export * from './types';
+export * from './redaction';
+export { DurationEngine, TimeInterval } from './durationEngine';
+export {
+  DIAGNOSTICS_SNAPSHOT_INTERVAL,
+  RollupAccumulator,
+  RollupSummary,
+  buildInstanceRollups,
+  createRollup,
+  getDayKey,
+  getHistoryDays,
+  getRecentDays,
+  mergeRollups,
+  summarizeRollups
+} from './rollups';
+export { StatsEngine, DEFAULT_IDLE_TIMEOUT } from './statsEngine';
@@ -0,0 +1,27 @@
+/**
+ * Data keys the extension's privacy policies can hash, shorten or drop, by the
+ * setting that controls them. They apply at any nesting depth, so data that
+ * went through a policy may lack any of them.
+ */
+export const REDACTABLE_FIELD_KEYS = {
+  filePath: ['filePath', 'oldFilePath', 'newFilePath'],
+  fileName: ['fileName', 'oldFileName', 'newFileName'],
+  workspaceId: ['workspaceId', 'workspacePath'],
+  projectName: ['projectName', 'workspaceName', 'repository'],
+  branch: ['branch', 'previousBranch'],
+  commitMessage: ['commitMessage'],
+  commandLine: ['commandLine'],
+  creationOptions: ['creationOptions']
+} as const;
+
+export type RedactableField = keyof typeof REDACTABLE_FIELD_KEYS;
+
+export type RedactableKey = (typeof REDACTABLE_FIELD_KEYS)[RedactableField][number];
+
+// `T` as it may look after redaction: every redactable key is optional, however deep
+export type Redacted<T> =
+  T extends Array<infer U> ? Array<Redacted<U>>
+  : T extends object
+    ? { [K in keyof T as K extends RedactableKey ? K : never]?: Redacted<T[K]> } &
+      { [K in keyof T as K extends RedactableKey ? never : K]: Redacted<T[K]> }
+    : T;
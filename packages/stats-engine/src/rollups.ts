@@ -0,0 +1,694 @@
+import {
+  ActivityEvent,
+  ActivityStats,
+  ActivityType,
+  CommandActivityData,
+  DailyRollup,
+  DebugActivityData,
+  DiagnosticsRollup,
+  DiagnosticsSnapshotData,
+  EditActivityData,
+  EditSource,
+  FileActivityData,
+  HeartbeatData,
+  IdleActivityData,
+  TaskActivityData,
+  TerminalCommandData
+} from './types';
+import { DurationEngine, TimeInterval } from './durationEngine';
+
+export type RollupSummary = Pick<ActivityStats,
+  'totalEvents' | 'filesSwitched' | 'filesEdited' | 'filesCreated' | 'commandsExecuted' |
+  'activeTime' | 'codingTime' | 'mostEditedFiles' | 'mostUsedLanguages' | 'mostUsedCommands' |
+  'dailyActivity' | 'hourlyActivity' | 'productivityScore'>;
+
+const ACTIVE_EVENT_TYPES = [
+  ActivityType.FILE_EDIT,
+  ActivityType.FILE_SWITCH,
+  ActivityType.COMMAND_EXECUTE,
+  ActivityType.FOCUS_GAINED,
+  ActivityType.HEARTBEAT
+];
+
+// Longest gap between edits of a file (or switches to a language) that still counts as time spent
+const FILE_GAP = 5 * 60 * 1000;
+const MAX_FILES_PER_DAY = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * While errors remain, a snapshot is repeated at this interval so that gaps
+ * longer than a couple of intervals can be told apart from VS Code being closed
+ */
+export const DIAGNOSTICS_SNAPSHOT_INTERVAL = 5 * 60 * 1000;
+// A snapshot holds until the next one, but never longer than this
+const MAX_SNAPSHOT_GAP = DIAGNOSTICS_SNAPSHOT_INTERVAL * 2;
+
+const PRODUCTIVITY_WEIGHTS: Record<ActivityType, number> = {
+  [ActivityType.FILE_EDIT]: 3,
+  [ActivityType.FILE_SAVE]: 2,
+  [ActivityType.FILE_CREATE]: 4,
+  [ActivityType.DEBUG_START]: 2,
+  [ActivityType.GIT_COMMIT]: 5,
+  [ActivityType.COMMAND_EXECUTE]: 1,
+  [ActivityType.FILE_OPEN]: 1,
+  [ActivityType.FILE_CLOSE]: 0,
+  [ActivityType.FILE_SWITCH]: 1,
+  [ActivityType.FILE_DELETE]: 1,
+  [ActivityType.FILE_RENAME]: 1,
+  [ActivityType.DEBUG_STOP]: 0,
+  [ActivityType.DEBUG_BREAKPOINT]: 1,
+  [ActivityType.TERMINAL_OPEN]: 1,
+  [ActivityType.TERMINAL_CLOSE]: 0,
+  [ActivityType.EXTENSION_INSTALL]: 1,
+  [ActivityType.EXTENSION_UNINSTALL]: 0,
+  [ActivityType.WORKSPACE_OPEN]: 0,
+  [ActivityType.WORKSPACE_CLOSE]: 0,
+  [ActivityType.FOCUS_GAINED]: 0,
+  [ActivityType.FOCUS_LOST]: 0,
+  [ActivityType.TASK_START]: 2,
+  [ActivityType.TASK_END]: 1,
+  [ActivityType.GIT_PUSH]: 3,
+  [ActivityType.GIT_PULL]: 2,
+  [ActivityType.GIT_CHECKOUT]: 1,
+  [ActivityType.GIT_MERGE]: 3,
+  [ActivityType.SEARCH_PERFORMED]: 1,
+  [ActivityType.HEARTBEAT]: 0,
+  [ActivityType.IDLE_START]: 0,
+  [ActivityType.IDLE_END]: 0,
+  [ActivityType.TERMINAL_COMMAND]: 1,
+  [ActivityType.DIAGNOSTICS_SNAPSHOT]: 0
+};
+
+export function getDayKey(timestamp: number): string {
+  return new Date(timestamp).toISOString().split('T')[0];
+}
+
+export function createRollup(date: string, instanceId?: string): DailyRollup {
+  return {
+    date,
+    instanceId,
+    events: 0,
+    activeTime: 0,
+    heartbeatTime: 0,
+    codingTime: 0,
+    debugTime: 0,
+    linesAdded: 0,
+    linesDeleted: 0,
+    eventTypes: {},
+    hours: Array.from({ length: 24 }, () => ({ events: 0, activeTime: 0 })),
+    languages: {},
+    files: {},
+    commands: {},
+    editSources: {},
+    terminalCommands: {},
+    feedbackLoop: {},
+    projects: {},
+    durations: { projects: {}, files: {}, branches: {} },
+    diagnostics: {
+      timeWithErrors: 0,
+      recoveries: 0,
+      recoveryTime: 0,
+      longestRecovery: 0,
+      files: {},
+      languages: {}
+    }
+  };
+}
+
+/**
+ * Folds the events of one window, in timestamp order, into daily rollups. Time
+ * is credited the same way the stats used to be computed from raw events: the
+ * gap between two active events counts unless it exceeds the idle timeout or
+ * overlaps an idle period.
+ */
+export class RollupAccumulator {
+  private lastActive = 0;
+  private lastEdit = 0;
+  private lastHeartbeat: { timestamp: number; language?: string; projectName?: string; file?: string; branch?: string } | null = null;
+  private lastFileEdit = new Map<string, number>();
+  private lastLanguageSwitch = new Map<string, number>();
+  private lastProjectActive = new Map<string, number>();
+  private idleIntervals: TimeInterval[] = [];
+  private openIdleSince: number | null = null;
+  private debugStarts = new Map<string, number>();
+  // Debug time already credited, so overlapping sessions count once
+  private debugIntervals: TimeInterval[] = [];
+  private lastSnapshot: DiagnosticsRollup['latest'] = undefined;
+  private errorRun: number | null = null;
+
+  /**
+   * `getHour` places events in the hours of the day; the local time zone by
+   * default, which the server replaces with the viewer's
+   */
+  constructor(
+    private idleTimeout: number,
+    private getHour: (timestamp: number) => number = timestamp => new Date(timestamp).getHours()
+  ) {}
+
+  public add(event: ActivityEvent, rollups: Map<string, DailyRollup>): void {
+    const date = getDayKey(event.timestamp);
+    let rollup = rollups.get(date);
+    if (!rollup) {
+      rollup = createRollup(date, event.instanceId);
+      rollups.set(date, rollup);
+    }
+    // Later writes into a finished day are no longer complete
+    rollup.final = undefined;
+
+    const hour = rollup.hours[this.getHour(event.timestamp)];
+    rollup.events++;
+    hour.events++;
+    rollup.eventTypes[event.type] = (rollup.eventTypes[event.type] || 0) + 1;
+
+    this.trackIdle(event);
+
+    const isActive = ACTIVE_EVENT_TYPES.includes(event.type);
+    if (isActive) {
+      if (this.lastActive && event.timestamp - this.lastActive < this.idleTimeout) {
+        const gap = this.activeGap(this.lastActive, event.timestamp);
+        rollup.activeTime += gap;
+        hour.activeTime += gap;
+      }
+      this.lastActive = event.timestamp;
+    }
+    this.addProjectActivity(rollup, event, isActive);
+
+    const data = event.data as FileActivityData;
+    switch (event.type) {
+      case ActivityType.FILE_EDIT:
+        this.addEdit(rollup, event, data);
+        break;
+      case ActivityType.FILE_SWITCH:
+        this.addLanguageTime(rollup, event, data);
+        break;
+      case ActivityType.HEARTBEAT:
+        this.addHeartbeat(rollup, event, data);
+        break;
+      case ActivityType.COMMAND_EXECUTE: {
+        const commandId = (event.data as CommandActivityData).commandId;
+        if (commandId) {
+          rollup.commands[commandId] = (rollup.commands[commandId] || 0) + 1;
+        }
+        break;
+      }
+      case ActivityType.DEBUG_START:
+      case ActivityType.DEBUG_STOP:
+        this.addDebug(rollup, event);
+        break;
+      case ActivityType.TERMINAL_COMMAND:
+        this.addTerminalCommand(rollup, event.data as TerminalCommandData);
+        this.addOutcome(rollup, event.data as TerminalCommandData);
+        break;
+      case ActivityType.TASK_END:
+        this.addOutcome(rollup, event.data as TaskActivityData);
+        break;
+      case ActivityType.DIAGNOSTICS_SNAPSHOT:
+        this.addDiagnostics(rollup, event);
+        break;
+    }
+  }
+
+  private trackIdle(event: ActivityEvent): void {
+    const data = event.data as IdleActivityData;
+    if (event.type === ActivityType.IDLE_START) {
+      this.openIdleSince = data.idleSince ?? event.timestamp;
+    } else if (event.type === ActivityType.IDLE_END) {
+      const idleSince = data.idleSince ?? this.openIdleSince;
+      if (idleSince !== null && idleSince !== undefined) {
+        this.idleIntervals.push({ start: idleSince, end: event.timestamp });
+      }
+      this.openIdleSince = null;
+    }
+
+    // Only idle periods that can still overlap an upcoming gap are needed
+    const horizon = event.timestamp - this.idleTimeout;
+    this.idleIntervals = this.idleIntervals.filter(interval => interval.end > horizon);
+  }
+
+  private activeGap(start: number, end: number): number {
+    const intervals = this.openIdleSince !== null
+      ? [...this.idleIntervals, { start: this.openIdleSince, end: Infinity }]
+      : this.idleIntervals;
+    return DurationEngine.excludeIdle(start, end, intervals);
+  }
+
+  private addProjectActivity(rollup: DailyRollup, event: ActivityEvent, isActive: boolean): void {
+    if (!event.projectName) return;
+
+    const key = event.workspaceId || event.projectName;
+    const project = rollup.projects[key] ||
+      { workspaceId: event.workspaceId, projectName: event.projectName, events: 0, activeTime: 0 };
+    project.events++;
+    if (isActive) {
+      const lastActive = this.lastProjectActive.get(key);
+      if (lastActive && event.timestamp - lastActive < this.idleTimeout) {
+        project.activeTime += this.activeGap(lastActive, event.timestamp);
+      }
+      this.lastProjectActive.set(key, event.timestamp);
+    }
+    rollup.projects[key] = project;
+  }
+
+  private addEdit(rollup: DailyRollup, event: ActivityEvent, data: EditActivityData): void {
+    if (this.lastEdit && event.timestamp - this.lastEdit < this.idleTimeout) {
+      rollup.codingTime += this.activeGap(this.lastEdit, event.timestamp);
+    }
+    this.lastEdit = event.timestamp;
+
+    rollup.linesAdded += data.linesAdded || 0;
+    rollup.linesDeleted += data.linesDeleted || 0;
+    // Edits recorded before classification existed count as typed
+    const editSource = data.editSource || 'typed';
+    const breakdown = data.sourceBreakdown || {
+      [editSource]: (data.charactersAdded || 0) + (data.charactersDeleted || 0)
+    };
+    (Object.keys(breakdown) as EditSource[]).forEach(source => {
+      const current = rollup.editSources[source] || { characters: 0, edits: 0 };
+      current.characters += breakdown[source] || 0;
+      if (source === editSource) {
+        current.edits++;
+      }
+      rollup.editSources[source] = current;
+    });
+
+    if (!data.fileName) return;
+    const file = rollup.files[data.fileName] || { edits: 0, time: 0 };
+    const lastEdit = this.lastFileEdit.get(data.fileName);
+    if (lastEdit && event.timestamp - lastEdit < FILE_GAP) {
+      file.time += event.timestamp - lastEdit;
+    }
+    file.edits++;
+    rollup.files[data.fileName] = file;
+    this.lastFileEdit.set(data.fileName, event.timestamp);
+  }
+
+  private addLanguageTime(rollup: DailyRollup, event: ActivityEvent, data: FileActivityData): void {
+    if (!data.language) return;
+
+    const language = this.getLanguage(rollup, data.language);
+    const lastSwitch = this.lastLanguageSwitch.get(data.language);
+    if (lastSwitch && event.timestamp - lastSwitch < FILE_GAP) {
+      language.time += event.timestamp - lastSwitch;
+    }
+    this.lastLanguageSwitch.set(data.language, event.timestamp);
+    this.addLanguageFile(language, data.fileName);
+  }
+
+  // Heartbeat gaps are credited to the earlier heartbeat, as in DurationEngine
+  private addHeartbeat(rollup: DailyRollup, event: ActivityEvent, data: HeartbeatData): void {
+    const previous = this.lastHeartbeat;
+    if (previous && event.timestamp - previous.timestamp <= this.idleTimeout) {
+      const gap = this.activeGap(previous.timestamp, event.timestamp);
+      rollup.heartbeatTime += gap;
+      if (previous.language) {
+        this.getLanguage(rollup, previous.language).heartbeatTime += gap;
+      }
+      if (gap > 0) {
+        addTo(rollup.durations.projects, previous.projectName, gap);
+        addTo(rollup.durations.files, previous.file, gap);
+        addTo(rollup.durations.branches, previous.branch, gap);
+      }
+    }
+    this.lastHeartbeat = {
+      timestamp: event.timestamp,
+      language: data.language,
+      projectName: event.projectName,
+      file: data.filePath || data.fileName,
+      branch: data.branch
+    };
+
+    if (data.language) {
+      this.addLanguageFile(this.getLanguage(rollup, data.language), data.fileName);
+    }
+  }
+
+  // Debug sessions are paired by ID, so nested and concurrent ones don't steal each other's stops
+  private addDebug(rollup: DailyRollup, event: ActivityEvent): void {
+    const data = event.data as DebugActivityData | undefined;
+    const key = data?.debugSessionId || 'legacy';
+
+    if (event.type === ActivityType.DEBUG_START) {
+      this.debugStarts.set(key, event.timestamp);
+      return;
+    }
+
+    // Fall back to the recorded duration when the start was never seen
+    const start = this.debugStarts.get(key) ?? (data?.duration ? event.timestamp - data.duration : undefined);
+    this.debugStarts.delete(key);
+    if (start === undefined || start >= event.timestamp) return;
+
+    rollup.debugTime += DurationEngine.excludeIdle(start, event.timestamp, this.debugIntervals);
+    this.debugIntervals = mergeIntervals([...this.debugIntervals, { start, end: event.timestamp }]);
+
+    // Only time that sessions still running may overlap is needed
+    const runningSince = Math.min(event.timestamp, ...this.debugStarts.values());
+    this.debugIntervals = this.debugIntervals.filter(interval => interval.end > runningSince);
+  }
+
+  private addTerminalCommand(rollup: DailyRollup, data: TerminalCommandData): void {
+    if (!data.executable) return;
+
+    const current = rollup.terminalCommands[data.executable] ||
+      { count: 0, failures: 0, completed: 0, duration: 0, timed: 0 };
+    current.count++;
+    // Commands without an exit code (e.g. no shell integration) don't count towards the failure rate
+    if (data.exitCode !== undefined) {
+      current.completed++;
+      if (data.exitCode !== 0) current.failures++;
+    }
+    if (data.duration !== undefined) {
+      current.duration += data.duration;
+      current.timed++;
+    }
+    rollup.terminalCommands[data.executable] = current;
+  }
+
+  private addOutcome(rollup: DailyRollup, data: TaskActivityData | TerminalCommandData): void {
+    if (!data.category || data.category === 'other') return;
+    // Watch tasks run for the whole session and nobody waits on them
+    if ('isBackground' in data && data.isBackground) return;
+
+    const outcome = rollup.feedbackLoop[data.category] || { runs: 0, passed: 0, failed: 0, totalDuration: 0 };
+    outcome.runs++;
+    if (data.exitCode === 0) {
+      outcome.passed++;
+    } else if (data.exitCode !== undefined) {
+      outcome.failed++;
+    }
+    outcome.totalDuration += data.duration || 0;
+    rollup.feedbackLoop[data.category] = outcome;
+  }
+
+  // A snapshot's time is credited once the next one shows how long it held
+  private addDiagnostics(rollup: DailyRollup, event: ActivityEvent): void {
+    const snapshot = event.data as DiagnosticsSnapshotData;
+    const previous = this.lastSnapshot;
+
+    if (previous) {
+      const heldFor = Math.min(event.timestamp - previous.timestamp, MAX_SNAPSHOT_GAP);
+      creditSnapshot(rollup.diagnostics, previous.snapshot, heldFor);
+      if (previous.snapshot.errors > 0) {
+        this.errorRun = (this.errorRun ?? 0) + heldFor;
+      }
+    }
+
+    if (snapshot.errors === 0 && this.errorRun !== null) {
+      rollup.diagnostics.recoveries++;
+      rollup.diagnostics.recoveryTime += this.errorRun;
+      rollup.diagnostics.longestRecovery = Math.max(rollup.diagnostics.longestRecovery, this.errorRun);
+      this.errorRun = null;
+    }
+
+    this.lastSnapshot = { timestamp: event.timestamp, snapshot };
+    rollup.diagnostics.latest = this.lastSnapshot;
+  }
+
+  private getLanguage(rollup: DailyRollup, language: string): DailyRollup['languages'][string] {
+    if (!rollup.languages[language]) {
+      rollup.languages[language] = { time: 0, heartbeatTime: 0, files: [] };
+    }
+    return rollup.languages[language];
+  }
+
+  private addLanguageFile(language: DailyRollup['languages'][string], fileName: string | undefined): void {
+    if (fileName && !language.files.includes(fileName) && language.files.length < MAX_FILES_PER_DAY) {
+      language.files.push(fileName);
+    }
+  }
+}
+
+/**
+ * Credit the time a diagnostics snapshot held to the files and languages with errors
+ */
+export function creditSnapshot(diagnostics: DiagnosticsRollup, snapshot: DiagnosticsSnapshotData, heldFor: number): void {
+  if (snapshot.errors === 0) return;
+  diagnostics.timeWithErrors += heldFor;
+
+  // Synced snapshots may have had their paths dropped by the privacy policy
+  snapshot.files.filter(f => f.errors > 0 && (f.filePath || f.fileName)).forEach(f => {
+    const key = f.filePath || f.fileName;
+    const current = diagnostics.files[key] || { file: f.fileName || key, filePath: f.filePath || key, errorTime: 0, maxErrors: 0 };
+    current.errorTime += heldFor;
+    current.maxErrors = Math.max(current.maxErrors, f.errors);
+    diagnostics.files[key] = current;
+  });
+
+  Object.entries(snapshot.languages).filter(([, counts]) => counts.errors > 0).forEach(([language, counts]) => {
+    const current = diagnostics.languages[language] || { errorTime: 0, maxErrors: 0 };
+    current.errorTime += heldFor;
+    current.maxErrors = Math.max(current.maxErrors, counts.errors);
+    diagnostics.languages[language] = current;
+  });
+}
+
+/**
+ * Rollups of each window's events, keyed by instance ID (empty for events
+ * recorded before windows were told apart), along with the accumulator that
+ * built them
+ */
+export function buildInstanceRollups(
+  events: ActivityEvent[],
+  idleTimeout: number,
+  getHour?: (timestamp: number) => number
+): Map<string, { accumulator: RollupAccumulator; rollups: Map<string, DailyRollup> }> {
+  const instances = new Map<string, { accumulator: RollupAccumulator; rollups: Map<string, DailyRollup> }>();
+  [...events]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .forEach(event => {
+      const instanceId = event.instanceId || '';
+      let instance = instances.get(instanceId);
+      if (!instance) {
+        instance = { accumulator: new RollupAccumulator(idleTimeout, getHour), rollups: new Map() };
+        instances.set(instanceId, instance);
+      }
+      instance.accumulator.add(event, instance.rollups);
+    });
+  return instances;
+}
+
+/**
+ * The windows' rollups of a day added up into one
+ */
+export function mergeRollups(date: string, rollups: DailyRollup[]): DailyRollup {
+  const merged = createRollup(date);
+
+  rollups.forEach(rollup => {
+    merged.events += rollup.events;
+    merged.activeTime += rollup.activeTime;
+    merged.heartbeatTime += rollup.heartbeatTime;
+    merged.codingTime += rollup.codingTime;
+    merged.debugTime += rollup.debugTime;
+    merged.linesAdded += rollup.linesAdded;
+    merged.linesDeleted += rollup.linesDeleted;
+    addTotals(merged.eventTypes, rollup.eventTypes);
+    addTotals(merged.commands, rollup.commands);
+    rollup.hours.forEach((hour, index) => merged.hours[index] = addFields(merged.hours[index], hour));
+    addEachFields(merged.files, rollup.files);
+    addEachFields(merged.editSources, rollup.editSources);
+    addEachFields(merged.terminalCommands, rollup.terminalCommands);
+    addEachFields(merged.feedbackLoop, rollup.feedbackLoop);
+    addEachFields(merged.projects, rollup.projects);
+    addTotals(merged.durations.projects, rollup.durations.projects);
+    addTotals(merged.durations.files, rollup.durations.files);
+    addTotals(merged.durations.branches, rollup.durations.branches);
+
+    Object.entries(rollup.languages).forEach(([language, stats]) => {
+      const current = merged.languages[language] || { time: 0, heartbeatTime: 0, files: [] };
+      const files = [...current.files, ...stats.files.filter(file => !current.files.includes(file))];
+      merged.languages[language] = {
+        time: current.time + stats.time,
+        heartbeatTime: current.heartbeatTime + stats.heartbeatTime,
+        files: files.slice(0, MAX_FILES_PER_DAY)
+      };
+    });
+
+    const diagnostics = merged.diagnostics;
+    diagnostics.timeWithErrors += rollup.diagnostics.timeWithErrors;
+    diagnostics.recoveries += rollup.diagnostics.recoveries;
+    diagnostics.recoveryTime += rollup.diagnostics.recoveryTime;
+    diagnostics.longestRecovery = Math.max(diagnostics.longestRecovery, rollup.diagnostics.longestRecovery);
+    Object.entries(rollup.diagnostics.files).forEach(([key, stats]) => {
+      const current = diagnostics.files[key];
+      diagnostics.files[key] = current
+        ? { ...current, errorTime: current.errorTime + stats.errorTime, maxErrors: Math.max(current.maxErrors, stats.maxErrors) }
+        : { ...stats };
+    });
+    Object.entries(rollup.diagnostics.languages).forEach(([language, stats]) => {
+      const current = diagnostics.languages[language];
+      diagnostics.languages[language] = current
+        ? { errorTime: current.errorTime + stats.errorTime, maxErrors: Math.max(current.maxErrors, stats.maxErrors) }
+        : { ...stats };
+    });
+    const latest = rollup.diagnostics.latest;
+    if (latest && (!diagnostics.latest || latest.timestamp > diagnostics.latest.timestamp)) {
+      diagnostics.latest = latest;
+    }
+  });
+
+  merged.final = (rollups.length > 0 && rollups.every(rollup => rollup.final)) || undefined;
+  return merged;
+}
+
+function addTo(totals: Record<string, number>, key: string | undefined, value: number): void {
+  if (!key) return;
+  totals[key] = (totals[key] || 0) + value;
+}
+
+function addTotals<K extends string>(totals: Partial<Record<K, number>>, values: Partial<Record<K, number>>): void {
+  (Object.entries(values) as Array<[K, number]>).forEach(([key, value]) => {
+    totals[key] = (totals[key] || 0) + value;
+  });
+}
+
+// A copy of `current` with the numeric fields of `values` added; other fields are kept
+function addFields<T extends object>(current: T | undefined, values: T): T {
+  if (!current) return { ...values };
+
+  const result = { ...current };
+  (Object.keys(values) as Array<keyof T>).forEach(field => {
+    const value = values[field];
+    if (typeof value === 'number') {
+      result[field] = (Number(result[field] || 0) + value) as T[keyof T];
+    }
+  });
+  return result;
+}
+
+function addEachFields<K extends string, T extends object>(totals: Partial<Record<K, T>>, values: Partial<Record<K, T>>): void {
+  (Object.entries(values) as Array<[K, T]>).forEach(([key, value]) => {
+    totals[key] = addFields<T>(totals[key], value);
+  });
+}
+
+function mergeIntervals(intervals: TimeInterval[]): TimeInterval[] {
+  const merged: TimeInterval[] = [];
+  [...intervals].sort((a, b) => a.start - b.start).forEach(interval => {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  });
+  return merged;
+}
+
+/**
+ * Rollups for the last `days` UTC days including today, oldest first.
+ * Days without activity are returned empty.
+ */
+export function getRecentDays(rollups: Map<string, DailyRollup>, days: number): DailyRollup[] {
+  const result: DailyRollup[] = [];
+  for (let i = days - 1; i >= 0; i--) {
+    const date = new Date();
+    date.setDate(date.getDate() - i);
+    const dateKey = date.toISOString().split('T')[0];
+    result.push(rollups.get(dateKey) || createRollup(dateKey));
+  }
+  return result;
+}
+
+/**
+ * Number of days from the oldest of `dates` up to and including today
+ */
+export function getHistoryDays(dates: string[]): number {
+  if (dates.length === 0) return 0;
+  const oldest = dates.reduce((min, date) => date < min ? date : min);
+  return Math.floor((Date.parse(getDayKey(Date.now())) - Date.parse(oldest)) / DAY_MS) + 1;
+}
+
+/**
+ * Totals, top lists and daily/hourly breakdowns over a set of rollups
+ */
+export function summarizeRollups(rollups: DailyRollup[]): RollupSummary {
+  const eventTypes = new Map<ActivityType, number>();
+  const files = new Map<string, { edits: number; time: number }>();
+  const languages = new Map<string, { time: number; heartbeatTime: number; files: Set<string> }>();
+  const commands = new Map<string, number>();
+  const hours = Array.from({ length: 24 }, (_, hour) => ({ hour, events: 0, activeTime: 0 }));
+  let totalEvents = 0;
+  let activeTime = 0;
+  let heartbeatTime = 0;
+  let codingTime = 0;
+
+  rollups.forEach(rollup => {
+    totalEvents += rollup.events;
+    activeTime += rollup.activeTime;
+    heartbeatTime += rollup.heartbeatTime;
+    codingTime += rollup.codingTime;
+
+    (Object.entries(rollup.eventTypes) as Array<[ActivityType, number]>).forEach(([type, count]) => {
+      eventTypes.set(type, (eventTypes.get(type) || 0) + count);
+    });
+    Object.entries(rollup.files).forEach(([file, stats]) => {
+      const current = files.get(file) || { edits: 0, time: 0 };
+      current.edits += stats.edits;
+      current.time += stats.time;
+      files.set(file, current);
+    });
+    Object.entries(rollup.languages).forEach(([language, stats]) => {
+      const current = languages.get(language) || { time: 0, heartbeatTime: 0, files: new Set<string>() };
+      current.time += stats.time;
+      current.heartbeatTime += stats.heartbeatTime;
+      stats.files.forEach(file => current.files.add(file));
+      languages.set(language, current);
+    });
+    Object.entries(rollup.commands).forEach(([command, count]) => {
+      commands.set(command, (commands.get(command) || 0) + count);
+    });
+    rollup.hours.forEach((hour, index) => {
+      hours[index].events += hour.events;
+      hours[index].activeTime += hour.activeTime;
+    });
+  });
+
+  // Heartbeat durations replace the event-gap estimates when available
+  const useHeartbeats = heartbeatTime > 0;
+  const count = (type: ActivityType) => eventTypes.get(type) || 0;
+
+  return {
+    totalEvents,
+    filesSwitched: count(ActivityType.FILE_SWITCH),
+    filesEdited: count(ActivityType.FILE_EDIT),
+    filesCreated: count(ActivityType.FILE_CREATE),
+    commandsExecuted: count(ActivityType.COMMAND_EXECUTE),
+    activeTime: useHeartbeats ? heartbeatTime : activeTime,
+    codingTime,
+    mostEditedFiles: Array.from(files.entries())
+      .map(([file, stats]) => ({ file, ...stats }))
+      .sort((a, b) => b.edits - a.edits)
+      .slice(0, 10),
+    mostUsedLanguages: Array.from(languages.entries())
+      .map(([language, stats]) => ({
+        language,
+        time: useHeartbeats ? stats.heartbeatTime : stats.time,
+        files: stats.files.size
+      }))
+      .sort((a, b) => b.time - a.time)
+      .slice(0, 5),
+    mostUsedCommands: Array.from(commands.entries())
+      .map(([command, commandCount]) => ({ command, count: commandCount }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, 10),
+    dailyActivity: rollups.map(rollup => ({
+      date: rollup.date,
+      events: rollup.events,
+      activeTime: rollup.activeTime
+    })),
+    hourlyActivity: hours,
+    productivityScore: calculateProductivityScore(eventTypes, totalEvents)
+  };
+}
+
+function calculateProductivityScore(eventTypes: Map<ActivityType, number>, totalEvents: number): number {
+  if (totalEvents === 0) return 0;
+
+  let score = 0;
+  eventTypes.forEach((count, type) => {
+    score += (PRODUCTIVITY_WEIGHTS[type] || 0) * count;
+  });
+
+  // Normalize score (0-100)
+  const maxPossibleScore = totalEvents * 5; // Max weight is 5
+  return Math.min(100, Math.round((score / maxPossibleScore) * 100));
+}
@@ -0,0 +1,237 @@
+import {
+  ActivityEvent,
+  ActivityStats,
+  ActivityType,
+  DailyRollup,
+  DiagnosticsStats,
+  DurationEntry,
+  DurationSummary,
+  EditSource,
+  FeedbackLoopStats,
+  FolderActivity,
+  OutcomeRollup,
+  OutcomeStats
+} from './types';
+import { DurationEngine } from './durationEngine';
+import { buildInstanceRollups, creditSnapshot, DIAGNOSTICS_SNAPSHOT_INTERVAL, mergeRollups, summarizeRollups } from './rollups';
+
+// Used where no `devActivityTracker.idleTimeoutMinutes` is known, e.g. on the server
+export const DEFAULT_IDLE_TIMEOUT = 5 * 60 * 1000;
+
+/**
+ * Computes `ActivityStats` the same way wherever activity is shown: the
+ * extension feeds it its stored rollups, the server rollups it builds from
+ * synced events.
+ */
+export class StatsEngine {
+  constructor(private idleTimeout: number = DEFAULT_IDLE_TIMEOUT) {}
+
+  /**
+   * @param days Rollups of each day in the period, oldest first
+   * @param history Every day with known activity up to today, oldest first, for streaks
+   */
+  public calculate(
+    days: DailyRollup[],
+    history: Array<{ events: number }>,
+    now = Date.now()
+  ): ActivityStats {
+    const period = mergeRollups('', days);
+    return {
+      ...summarizeRollups(days),
+      debugTime: period.debugTime,
+      terminalCommands: this.getTerminalCommandStats(period),
+      feedbackLoop: this.getFeedbackLoopStats(period),
+      diagnostics: this.getDiagnosticsStats(period, now),
+      projectActivity: Object.values(period.projects).sort((a, b) => b.activeTime - a.activeTime),
+      ...this.getEditSummary(period),
+      streakData: this.calculateStreakData(history),
+      durations: this.getDurations(period)
+    };
+  }
+
+  /**
+   * Daily rollups of `events`, for when none were stored while they were recorded.
+   * Each window's events are rolled up on their own and then added up.
+   */
+  public buildRollups(
+    events: ActivityEvent[],
+    getHour?: (timestamp: number) => number
+  ): Map<string, DailyRollup> {
+    const byDay = new Map<string, DailyRollup[]>();
+    buildInstanceRollups(events, this.idleTimeout, getHour).forEach(({ rollups }) => {
+      rollups.forEach((rollup, date) => byDay.set(date, [...(byDay.get(date) || []), rollup]));
+    });
+    return new Map(Array.from(byDay.entries()).map(([date, rollups]) => [date, mergeRollups(date, rollups)]));
+  }
+
+  /**
+   * Time between active events, leaving out gaps longer than the idle timeout
+   * and periods reported as idle
+   */
+  public calculateActiveTime(events: ActivityEvent[]): number {
+    let activeTime = 0;
+    let lastActiveTime = 0;
+    const maxIdleTime = this.idleTimeout;
+    const idleIntervals = DurationEngine.getIdleIntervals(events);
+
+    const activeEventTypes = [
+      ActivityType.FILE_EDIT,
+      ActivityType.FILE_SWITCH,
+      ActivityType.COMMAND_EXECUTE,
+      ActivityType.FOCUS_GAINED,
+      ActivityType.HEARTBEAT
+    ];
+
+    for (const event of events.sort((a, b) => a.timestamp - b.timestamp)) {
+      if (activeEventTypes.includes(event.type)) {
+        if (lastActiveTime && (event.timestamp - lastActiveTime) < maxIdleTime) {
+          activeTime += DurationEngine.excludeIdle(lastActiveTime, event.timestamp, idleIntervals);
+        }
+        lastActiveTime = event.timestamp;
+      }
+    }
+
+    return activeTime;
+  }
+
+  /**
+   * Events and active time per workspace folder, busiest first
+   */
+  public getProjectActivity(events: ActivityEvent[]): FolderActivity[] {
+    const eventsByFolder = new Map<string, { folder: FolderActivity; events: ActivityEvent[] }>();
+
+    events
+      .filter(e => e.projectName)
+      .forEach(e => {
+        const key = e.workspaceId || e.projectName!;
+        if (!eventsByFolder.has(key)) {
+          eventsByFolder.set(key, {
+            folder: { workspaceId: e.workspaceId, projectName: e.projectName!, events: 0, activeTime: 0 },
+            events: []
+          });
+        }
+        eventsByFolder.get(key)!.events.push(e);
+      });
+
+    return Array.from(eventsByFolder.values())
+      .map(({ folder, events: folderEvents }) => ({
+        ...folder,
+        events: folderEvents.length,
+        activeTime: this.calculateActiveTime(folderEvents)
+      }))
+      .sort((a, b) => b.activeTime - a.activeTime);
+  }
+
+  private getEditSummary(period: DailyRollup): Pick<ActivityStats, 'linesAdded' | 'linesDeleted' | 'editSources'> {
+    return {
+      linesAdded: period.linesAdded,
+      linesDeleted: period.linesDeleted,
+      editSources: (Object.entries(period.editSources) as Array<[EditSource, { characters: number; edits: number }]>)
+        .map(([source, stats]) => ({ source, ...stats }))
+        .filter(s => s.characters > 0)
+        .sort((a, b) => b.characters - a.characters)
+    };
+  }
+
+  private getTerminalCommandStats(period: DailyRollup): ActivityStats['terminalCommands'] {
+    return Object.entries(period.terminalCommands)
+      .map(([command, stats]) => ({
+        command,
+        count: stats.count,
+        failures: stats.failures,
+        failureRate: stats.completed > 0 ? stats.failures / stats.completed : 0,
+        averageDuration: stats.timed > 0 ? Math.round(stats.duration / stats.timed) : 0
+      }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, 10);
+  }
+
+  private getFeedbackLoopStats(period: DailyRollup): FeedbackLoopStats {
+    const toStats = (outcome: OutcomeRollup = { runs: 0, passed: 0, failed: 0, totalDuration: 0 }): OutcomeStats => {
+      const completed = outcome.passed + outcome.failed;
+      return { ...outcome, passRate: completed > 0 ? outcome.passed / completed : 0 };
+    };
+    const builds = toStats(period.feedbackLoop.build);
+    const tests = toStats(period.feedbackLoop.test);
+    const lints = toStats(period.feedbackLoop.lint);
+
+    return {
+      builds,
+      tests,
+      lints,
+      waitingTime: builds.totalDuration + tests.totalDuration + lints.totalDuration
+    };
+  }
+
+  private getDiagnosticsStats(period: DailyRollup, now: number): DiagnosticsStats {
+    const diagnostics = period.diagnostics;
+    const latest = diagnostics.latest;
+    // The latest snapshot holds until now, as long as it would until a next one
+    if (latest) {
+      creditSnapshot(diagnostics, latest.snapshot, Math.max(0, Math.min(now - latest.timestamp, DIAGNOSTICS_SNAPSHOT_INTERVAL * 2)));
+    }
+
+    return {
+      timeToGreen: diagnostics.recoveries > 0 ? Math.round(diagnostics.recoveryTime / diagnostics.recoveries) : 0,
+      longestTimeToGreen: diagnostics.longestRecovery,
+      recoveries: diagnostics.recoveries,
+      timeWithErrors: diagnostics.timeWithErrors,
+      currentErrors: latest?.snapshot.errors || 0,
+      currentWarnings: latest?.snapshot.warnings || 0,
+      errorHeavyFiles: Object.values(diagnostics.files)
+        .sort((a, b) => b.errorTime - a.errorTime)
+        .slice(0, 10),
+      languages: Object.entries(diagnostics.languages)
+        .map(([language, stats]) => ({ language, ...stats }))
+        .sort((a, b) => b.errorTime - a.errorTime)
+    };
+  }
+
+  private getDurations(period: DailyRollup): DurationSummary {
+    const toEntries = (totals: Record<string, number>): DurationEntry[] => Object.entries(totals)
+      .map(([name, time]) => ({ name, time }))
+      .sort((a, b) => b.time - a.time);
+
+    const languages: Record<string, number> = {};
+    Object.entries(period.languages)
+      .filter(([, stats]) => stats.heartbeatTime > 0)
+      .forEach(([language, stats]) => languages[language] = stats.heartbeatTime);
+
+    return {
+      total: period.heartbeatTime,
+      projects: toEntries(period.durations.projects),
+      files: toEntries(period.durations.files),
+      languages: toEntries(languages),
+      branches: toEntries(period.durations.branches)
+    };
+  }
+
+  private calculateStreakData(dailyActivity: Array<{ events: number }>): { current: number; longest: number } {
+    let currentStreak = 0;
+    let longestStreak = 0;
+    let tempStreak = 0;
+
+    // Calculate from most recent day backwards
+    for (let i = dailyActivity.length - 1; i >= 0; i--) {
+      if (dailyActivity[i].events > 0) {
+        tempStreak++;
+        if (i === dailyActivity.length - 1) {
+          currentStreak = tempStreak;
+        }
+      } else {
+        if (tempStreak > longestStreak) {
+          longestStreak = tempStreak;
+        }
+        tempStreak = 0;
+        if (i === dailyActivity.length - 1) {
+          currentStreak = 0;
+        }
+      }
+    }
+
+    return {
+      current: currentStreak,
+      longest: Math.max(longestStreak, tempStreak)
+    };
+  }
+}
@@ -0,0 +1,372 @@
+export interface ActivityEvent {
+  id: string;
+  timestamp: number;
+  type: ActivityType;
+  data: ActivityData;
+  workspaceId?: string;
+  projectName?: string;
+  sessionId: string;
+  // The VS Code window that recorded the event
+  instanceId?: string;
+  localOnly?: boolean;
+}
+
+export enum ActivityType {
+  FILE_OPEN = 'file_open',
+  FILE_CLOSE = 'file_close',
+  FILE_SWITCH = 'file_switch',
+  FILE_EDIT = 'file_edit',
+  FILE_SAVE = 'file_save',
+  FILE_CREATE = 'file_create',
+  FILE_DELETE = 'file_delete',
+  FILE_RENAME = 'file_rename',
+  COMMAND_EXECUTE = 'command_execute',
+  DEBUG_START = 'debug_start',
+  DEBUG_STOP = 'debug_stop',
+  DEBUG_BREAKPOINT = 'debug_breakpoint',
+  TERMINAL_OPEN = 'terminal_open',
+  TERMINAL_CLOSE = 'terminal_close',
+  EXTENSION_INSTALL = 'extension_install',
+  EXTENSION_UNINSTALL = 'extension_uninstall',
+  WORKSPACE_OPEN = 'workspace_open',
+  WORKSPACE_CLOSE = 'workspace_close',
+  FOCUS_GAINED = 'focus_gained',
+  FOCUS_LOST = 'focus_lost',
+  TASK_START = 'task_start',
+  TASK_END = 'task_end',
+  GIT_COMMIT = 'git_commit',
+  GIT_PUSH = 'git_push',
+  GIT_PULL = 'git_pull',
+  GIT_CHECKOUT = 'git_checkout',
+  GIT_MERGE = 'git_merge',
+  SEARCH_PERFORMED = 'search_performed',
+  HEARTBEAT = 'heartbeat',
+  IDLE_START = 'idle_start',
+  IDLE_END = 'idle_end',
+  TERMINAL_COMMAND = 'terminal_command',
+  DIAGNOSTICS_SNAPSHOT = 'diagnostics_snapshot'
+}
+
+export interface BaseActivityData {
+  fileName?: string;
+  filePath?: string;
+  fileExtension?: string;
+  lineCount?: number;
+  characterCount?: number;
+  workspaceName?: string;
+}
+
+export interface FileActivityData extends BaseActivityData {
+  language?: string;
+  isUntitled?: boolean;
+  isDirty?: boolean;
+  fileSize?: number;
+  encoding?: string;
+}
+
+export interface EditActivityData extends FileActivityData {
+  linesAdded?: number;
+  linesDeleted?: number;
+  charactersAdded?: number;
+  charactersDeleted?: number;
+  editType?: 'insert' | 'delete' | 'replace';
+  editSource?: EditSource;
+  sourceBreakdown?: Partial<Record<EditSource, number>>;
+  cursorPosition?: { line: number; character: number };
+}
+
+export type EditSource = 'typed' | 'pasted' | 'undo' | 'redo' | 'format' | 'completion';
+
+export interface CommandActivityData {
+  commandId: string;
+  commandTitle?: string;
+  category?: string;
+  executionTime?: number;
+}
+
+export interface DebugActivityData extends BaseActivityData {
+  debugType?: string;
+  configurationName?: string;
+  debugSessionId?: string;
+  parentSessionId?: string;
+  breakpointCount?: number;
+  duration?: number;
+  stepCount?: number;
+  exceptionCount?: number;
+  breakpointHits?: number;
+  action?: 'add' | 'remove' | 'hit';
+  breakpointKind?: string;
+  description?: string;
+  functionName?: string;
+  line?: number;
+}
+
+export interface GitActivityData {
+  repository?: string;
+  branch?: string;
+  commitHash?: string;
+  commitMessage?: string;
+  filesChanged?: number;
+  previousBranch?: string;
+  commitCount?: number;
+}
+
+export interface HeartbeatData extends BaseActivityData {
+  language?: string;
+  branch?: string;
+  isWrite?: boolean;
+  cursorLine?: number;
+}
+
+export interface IdleActivityData {
+  idleSince: number;
+  idleDuration?: number;
+  reason?: string;
+}
+
+export type WorkflowCategory = 'build' | 'test' | 'lint' | 'other';
+
+export interface TerminalCommandData {
+  terminalName: string;
+  executable: string;
+  commandLine?: string;
+  category?: WorkflowCategory;
+  exitCode?: number;
+  duration?: number;
+  confidence?: 'low' | 'medium' | 'high';
+}
+
+// Which folder a task belongs to is the event's workspaceId, not part of its data
+export type TaskScopeKind = 'global' | 'workspace' | 'folder';
+
+export interface TaskActivityData {
+  taskName: string;
+  taskType: string;
+  scope?: TaskScopeKind;
+  category?: WorkflowCategory;
+  isBackground?: boolean;
+  exitCode?: number;
+  duration?: number;
+}
+
+export interface FileDiagnostics {
+  fileName: string;
+  filePath: string;
+  language: string;
+  errors: number;
+  warnings: number;
+}
+
+export interface DiagnosticsSnapshotData {
+  errors: number;
+  warnings: number;
+  filesWithErrors: number;
+  files: FileDiagnostics[];
+  languages: Record<string, { errors: number; warnings: number }>;
+}
+
+export interface SearchActivityData {
+  query: string;
+  resultsCount?: number;
+  searchScope?: 'workspace' | 'file' | 'selection';
+  isRegex?: boolean;
+  isCaseSensitive?: boolean;
+}
+
+export type ActivityData = 
+  | FileActivityData 
+  | EditActivityData 
+  | CommandActivityData 
+  | DebugActivityData 
+  | GitActivityData
+  | SearchActivityData
+  | HeartbeatData
+  | IdleActivityData
+  | TerminalCommandData
+  | TaskActivityData
+  | DiagnosticsSnapshotData
+  | BaseActivityData;
+
+export interface ActivityStats {
+  totalEvents: number;
+  filesSwitched: number;
+  filesEdited: number;
+  filesCreated: number;
+  commandsExecuted: number;
+  activeTime: number;
+  codingTime: number;
+  debugTime: number;
+  mostEditedFiles: Array<{ file: string; edits: number; time: number }>;
+  mostUsedLanguages: Array<{ language: string; time: number; files: number }>;
+  mostUsedCommands: Array<{ command: string; count: number }>;
+  terminalCommands: Array<{ command: string; count: number; failures: number; failureRate: number; averageDuration: number }>;
+  projectActivity: FolderActivity[];
+  linesAdded: number;
+  linesDeleted: number;
+  editSources: Array<{ source: EditSource; characters: number; edits: number }>;
+  dailyActivity: Array<{ date: string; events: number; activeTime: number }>;
+  hourlyActivity: Array<{ hour: number; events: number; activeTime: number }>;
+  productivityScore: number;
+  streakData: { current: number; longest: number };
+  durations: DurationSummary;
+  feedbackLoop: FeedbackLoopStats;
+  diagnostics: DiagnosticsStats;
+}
+
+export interface DiagnosticsStats {
+  timeToGreen: number;
+  longestTimeToGreen: number;
+  recoveries: number;
+  timeWithErrors: number;
+  currentErrors: number;
+  currentWarnings: number;
+  errorHeavyFiles: Array<{ file: string; filePath: string; errorTime: number; maxErrors: number }>;
+  languages: Array<{ language: string; errorTime: number; maxErrors: number }>;
+}
+
+export interface OutcomeStats {
+  runs: number;
+  passed: number;
+  failed: number;
+  passRate: number;
+  totalDuration: number;
+}
+
+export interface FeedbackLoopStats {
+  builds: OutcomeStats;
+  tests: OutcomeStats;
+  lints: OutcomeStats;
+  waitingTime: number;
+}
+
+export interface DurationEntry {
+  name: string;
+  time: number;
+}
+
+export interface DurationSummary {
+  total: number;
+  projects: DurationEntry[];
+  files: DurationEntry[];
+  languages: DurationEntry[];
+  branches: DurationEntry[];
+}
+
+export interface WorkspaceFolderInfo {
+  workspaceId: string;
+  projectName: string;
+}
+
+export interface FolderActivity {
+  workspaceId?: string;
+  projectName: string;
+  events: number;
+  activeTime: number;
+}
+
+export interface SessionData {
+  id: string;
+  startTime: number;
+  endTime?: number;
+  workspaceId?: string;
+  projectName?: string;
+  workspaceFolders?: WorkspaceFolderInfo[];
+  folderActivity?: FolderActivity[];
+  totalEvents: number;
+  activeTime: number;
+}
+
+export interface HourlyRollup {
+  events: number;
+  activeTime: number;
+}
+
+export interface OutcomeRollup {
+  runs: number;
+  passed: number;
+  failed: number;
+  totalDuration: number;
+}
+
+export interface DiagnosticsRollup {
+  timeWithErrors: number;
+  recoveries: number;
+  recoveryTime: number;
+  longestRecovery: number;
+  files: Record<string, { file: string; filePath: string; errorTime: number; maxErrors: number }>;
+  languages: Record<string, { errorTime: number; maxErrors: number }>;
+  // Last snapshot of the day; it holds until the next one, which credits its time
+  latest?: { timestamp: number; snapshot: DiagnosticsSnapshotData };
+}
+
+/**
+ * Aggregates for one UTC day, kept up to date as events arrive and retained
+ * longer than the raw events they were built from. Each VS Code window keeps
+ * its own; the rollups of a day add up.
+ */
+export interface DailyRollup {
+  date: string;
+  // The window whose events this covers; absent in rollups of several windows
+  instanceId?: string;
+  events: number;
+  activeTime: number;
+  heartbeatTime: number;
+  codingTime: number;
+  debugTime: number;
+  linesAdded: number;
+  linesDeleted: number;
+  eventTypes: Partial<Record<ActivityType, number>>;
+  // Indexed by local hour of day
+  hours: HourlyRollup[];
+  languages: Record<string, { time: number; heartbeatTime: number; files: string[] }>;
+  files: Record<string, { edits: number; time: number }>;
+  commands: Record<string, number>;
+  editSources: Partial<Record<EditSource, { characters: number; edits: number }>>;
+  terminalCommands: Record<string, { count: number; failures: number; completed: number; duration: number; timed: number }>;
+  feedbackLoop: Partial<Record<Exclude<WorkflowCategory, 'other'>, OutcomeRollup>>;
+  // Keyed by workspace ID, or project name where there is none
+  projects: Record<string, FolderActivity>;
+  // Heartbeat time by project, file and branch; languages have theirs above
+  durations: Record<'projects' | 'files' | 'branches', Record<string, number>>;
+  diagnostics: DiagnosticsRollup;
+  // Built from all of the window's events once the day was over
+  final?: boolean;
+}
+
+/**
+ * Why the server rejected an item; none of them is worth retrying. A request's
+ * sessions are stored before its events, so an event may belong to a session
+ * sent in the same request or stored by an earlier one. Events of any other
+ * session are rejected as `unknown_session`.
+ */
+export type SyncErrorCode =
+  | 'invalid_event'
+  | 'invalid_type'
+  | 'invalid_data'
+  | 'invalid_session'
+  | 'timestamp_out_of_range'
+  | 'payload_too_large'
+  | 'unknown_session'
+  | 'session_conflict';
+
+export type SyncItemStatus =
+  | { id: string; status: 'created' | 'updated' | 'exists' }
+  | { id: string; status: 'error'; code: SyncErrorCode; error: string };
+
+export interface SyncCounts {
+  created: number;
+  updated: number;
+  duplicates: number;
+  rejected: number;
+}
+
+// Response of `POST /api/devtracker/sync`, shared with the CodeFlow server
+export interface SyncResponse {
+  success: boolean;
+  error?: string;
+  processed?: number;
+  events?: SyncCounts;
+  sessions?: SyncCounts;
+  status?: SyncItemStatus[];
+  sessionStatus?: SyncItemStatus[];
+}